@@ -127,6 +127,7 @@ async function loadDatasets(): Promise<Record<string, DatasetConfigWithPaths>> {
           // Add computed stateFile path
           const configWithPaths: DatasetConfigWithPaths = {
             ...config,
+            scenarioDir: join(basePath, entry.name),
             stateFile: join(relativePathPrefix, entry.name, '.state.json'),
           };
 
@@ -358,6 +359,8 @@ async function loadCommand(datasetName: string) {
           title: dataset.displayName,
           content: formattedText,
           partNumber: 1,
+          start: 0,
+          end: formattedText.length,
         }];
         printSuccess(`Created single document with ${formattedText.length.toLocaleString()} characters`);
       }
@@ -490,11 +493,10 @@ async function annotateCommand(datasetName: string) {
     if (dataset.isMultiDocument) {
       // For multi-document datasets, load the documents and treat each as a chunk
       const documents = await dataset.loadDocuments!();
-      chunks = documents.map((doc, index) => ({
-        title: doc.title,
-        content: typeof doc.content === 'string' ? doc.content : doc.content.toString(),
-        partNumber: index + 1,
-      }));
+      chunks = documents.map((doc, index) => {
+        const content = typeof doc.content === 'string' ? doc.content : doc.content.toString();
+        return { title: doc.title, content, partNumber: index + 1, start: 0, end: content.length };
+      });
     } else if (dataset.shouldChunk) {
       if (dataset.useSmartChunking) {
         chunks = chunkText(state.formattedText, dataset.chunkSize!, `${dataset.displayName} - Part`);
@@ -506,6 +508,8 @@ async function annotateCommand(datasetName: string) {
         title: dataset.displayName,
         content: state.formattedText,
         partNumber: 1,
+        start: 0,
+        end: state.formattedText.length,
       }];
     }
 
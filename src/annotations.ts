@@ -8,13 +8,44 @@ import type { SemiontApiClient } from '@semiont/api-client';
 import type { AccessToken, ResourceId, AnnotationId } from '@semiont/core';
 import { printBatchProgress, printSuccess, printWarning, printAnnotationCreated } from './display';
 import type { TableOfContentsReference } from './resources';
+import type { LinkRef } from './state';
+import type { BackendAnnotation } from './bundle';
+import { mapWithConcurrency, resolveConcurrency } from './concurrency';
+import { apiCall } from './api-call';
 
 export interface CreateStubReferencesOptions {
-  // Future options can be added here
+  concurrency?: number; // Maximum annotation requests in flight (default 1)
+  resumed?: boolean;    // The ToC comes from an interrupted run: keep the stubs it already has
+}
+
+interface ExistingStub {
+  annotationId: AnnotationId;
+  linked: boolean; // Already has its SpecificResource body
+}
+
+/**
+ * Stub annotations already on a ToC, by the position of the entry they mark
+ */
+async function findExistingStubs(tocId: ResourceId, client: SemiontApiClient, auth: AccessToken): Promise<Map<string, ExistingStub>> {
+  const { annotations } = await apiCall('getResourceAnnotations', () => client.getResourceAnnotations(tocId, { auth }));
+  const stubs = new Map<string, ExistingStub>();
+  for (const annotation of annotations as BackendAnnotation[]) {
+    if (typeof annotation.target === 'string') continue;
+    const position = [annotation.target.selector ?? []].flat().find(selector => selector.type === 'TextPositionSelector');
+    if (position?.type !== 'TextPositionSelector') continue;
+    stubs.set(`${position.start}:${position.end}`, {
+      annotationId: annotation.id as AnnotationId,
+      linked: [annotation.body].flat().some(body => body?.type === 'SpecificResource'),
+    });
+  }
+  return stubs;
 }
 
 /**
- * Create stub annotations (references without targets yet)
+ * Create stub annotations (references without targets yet). A reference whose
+ * stub cannot be created is reported and skipped so the rest can still be linked;
+ * returns the references that have a stub. On a resumed ToC, entries that
+ * already have a stub keep it.
  */
 export async function createStubReferences(
   tocId: ResourceId,
@@ -25,47 +56,69 @@ export async function createStubReferences(
   options: CreateStubReferencesOptions = {}
 ): Promise<TableOfContentsReference[]> {
 
-  for (let i = 0; i < references.length; i++) {
-    const ref = references[i];
+  const concurrency = resolveConcurrency(options.concurrency);
+  const existing = options.resumed ? await findExistingStubs(tocId, client, auth) : new Map<string, ExistingStub>();
+
+  const created = await mapWithConcurrency(references, concurrency, async (ref, i, throttle) => {
     ref.documentId = chunkIds[i];
 
+    const stub = existing.get(`${ref.start}:${ref.end}`);
+    if (stub) {
+      ref.annotationId = stub.annotationId;
+      return true;
+    }
+
     printBatchProgress(i + 1, references.length, `Creating annotation for "${ref.text}"...`);
 
-    const response = await client.createAnnotation(tocId, {
-      motivation: 'linking',
-      target: {
-        source: tocId,
-        selector: [
-          {
-            type: 'TextPositionSelector',
-            start: ref.start,
-            end: ref.end,
-          },
-          {
-            type: 'TextQuoteSelector',
-            exact: ref.text,
-          },
-        ],
-      },
-      body: [{
-        type: 'TextualBody',
-        value: 'part-reference',
-        purpose: 'tagging',
-      }],
-    }, { auth });
-
-    // Store the FULL annotation ID (includes URL prefix)
-    ref.annotationId = response.annotationId;
-
-    printAnnotationCreated(response.annotationId);
-  }
+    try {
+      const response = await apiCall('createAnnotation', () => client.createAnnotation(tocId, {
+        motivation: 'linking',
+        target: {
+          source: tocId,
+          selector: [
+            {
+              type: 'TextPositionSelector',
+              start: ref.start,
+              end: ref.end,
+            },
+            {
+              type: 'TextQuoteSelector',
+              exact: ref.text,
+            },
+          ],
+        },
+        body: [{
+          type: 'TextualBody',
+          value: 'part-reference',
+          purpose: 'tagging',
+        }],
+      }, { auth }), { throttle });
 
-  printSuccess(`Created ${references.length} stub annotations`);
-  return references;
+      // Store the FULL annotation ID (includes URL prefix)
+      ref.annotationId = response.annotationId;
+
+      printAnnotationCreated(response.annotationId);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      printWarning(concurrency > 1 ? `Failed: "${ref.text}": ${message}` : `Failed: ${message}`, 7);
+      return false;
+    }
+  });
+  const stubbed = references.filter((_, i) => created[i]);
+
+  if (stubbed.length < references.length) {
+    printWarning(`Created ${stubbed.length}/${references.length} stub annotations; ${references.length - stubbed.length} entries will not be linked`);
+  } else {
+    printSuccess(`Created ${references.length} stub annotations`);
+  }
+  return stubbed;
 }
 
 export interface LinkReferencesOptions {
   showProgress?: boolean;
+  concurrency?: number; // Maximum link requests in flight (default 1)
+  resumed?: boolean;    // The ToC comes from an interrupted run: stubs it already linked are not linked again
 }
 
 /**
@@ -79,18 +132,21 @@ export async function linkReferences(
   options: LinkReferencesOptions = {}
 ): Promise<number> {
   const { showProgress = true } = options;
-  let successCount = 0;
+  const concurrency = resolveConcurrency(options.concurrency);
+  const existing = options.resumed ? await findExistingStubs(tocId, client, auth) : new Map<string, ExistingStub>();
 
-  for (let i = 0; i < references.length; i++) {
-    const ref = references[i];
+  const linked = await mapWithConcurrency(references, concurrency, async (ref, i, throttle) => {
     const shortDocId = ref.documentId.substring(0, 20);
+    if (existing.get(`${ref.start}:${ref.end}`)?.linked) {
+      return true;
+    }
 
     if (showProgress) {
       printBatchProgress(i + 1, references.length, `Linking "${ref.text}" → ${shortDocId}...`);
     }
 
     try {
-      await client.updateAnnotationBody(tocId, ref.annotationId! as AnnotationId, {
+      await apiCall('updateAnnotationBody', () => client.updateAnnotationBody(tocId, ref.annotationId! as AnnotationId, {
         resourceId: tocId,
         operations: [{
           op: 'add',
@@ -100,19 +156,71 @@ export async function linkReferences(
             purpose: 'linking',
           },
         }],
-      }, { auth });
+      }, { auth }), { throttle });
 
       if (showProgress) {
-        printSuccess('Linked', 7);
+        printSuccess(concurrency > 1 ? `Linked "${ref.text}"` : 'Linked', 7);
       }
-      successCount++;
+      return true;
     } catch (error) {
       if (showProgress) {
-        printWarning(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 7);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        printWarning(concurrency > 1 ? `Failed: "${ref.text}": ${message}` : `Failed: ${message}`, 7);
       }
+      return false;
     }
-  }
+  });
+  const successCount = linked.filter(Boolean).length;
 
   printSuccess(`Linked ${successCount}/${references.length} references`);
   return successCount;
 }
+
+export interface RepointLinksOptions {
+  concurrency?: number; // Maximum update requests in flight (default 1)
+}
+
+/**
+ * Re-point link annotations whose target resource was replaced by a new version.
+ * Returns the links with their current targets; links whose update failed keep the old target.
+ */
+export async function repointLinks(
+  links: LinkRef[],
+  replaced: Map<ResourceId, ResourceId>,
+  client: SemiontApiClient,
+  auth: AccessToken,
+  options: RepointLinksOptions = {}
+): Promise<{ links: LinkRef[]; repointed: number; failed: number }> {
+  const stale = links.filter(link => replaced.has(link.targetId));
+  const concurrency = resolveConcurrency(options.concurrency);
+
+  const results = await mapWithConcurrency(stale, concurrency, async (link, i, throttle) => {
+    const newTarget = replaced.get(link.targetId)!;
+    printBatchProgress(i + 1, stale.length, `Re-pointing ${link.annotationId.split('/').pop()} → ${newTarget.substring(0, 20)}...`);
+
+    try {
+      await apiCall('updateAnnotationBody', () => client.updateAnnotationBody(link.resourceId, link.annotationId, {
+        resourceId: link.resourceId,
+        operations: [{
+          op: 'replace',
+          oldItem: { type: 'SpecificResource', source: link.targetId, purpose: 'linking' },
+          newItem: { type: 'SpecificResource', source: newTarget, purpose: 'linking' },
+        }],
+      }, { auth }), { throttle });
+      return true;
+    } catch (error) {
+      printWarning(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 7);
+      return false;
+    }
+  });
+
+  const updated = new Map(stale.map((link, i) => [link, results[i]]));
+  const repointed = results.filter(Boolean).length;
+  printSuccess(`Re-pointed ${repointed}/${stale.length} links to replaced resources`);
+
+  return {
+    links: links.map(link => updated.get(link) ? { ...link, targetId: replaced.get(link.targetId)! } : link),
+    repointed,
+    failed: stale.length - repointed,
+  };
+}
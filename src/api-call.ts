@@ -0,0 +1,257 @@
+/**
+ * API Call Policy
+ *
+ * Every SemiontApiClient operation goes through apiCall(), which applies a
+ * per-call timeout and retries transient failures (network errors, timeouts,
+ * 5xx and 429) with exponential backoff and jitter. Client errors (other 4xx)
+ * fail immediately. Operations that create something are not idempotent: a
+ * timeout or 5xx may come after the backend applied the request, and a retry
+ * would create a duplicate, so they are retried only when the request provably
+ * never took effect (the connection was refused, or the backend answered 429).
+ * Retries are tallied per operation for the final report.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Throttle } from './concurrency';
+import { printInfo, printLine, printWarning } from './display';
+import { log } from './logger';
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+const DEFAULT_TIMEOUT_MS = 60000;
+
+// Node/undici error codes for connections that failed before a response arrived
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+// Failures that happen before a request reaches the backend
+const NOT_SENT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+// Operations a retry could apply twice (a second resource or annotation, or a duplicate body item)
+const NON_IDEMPOTENT_OPERATIONS = new Set([
+  'createResource',
+  'createAnnotation',
+  'updateAnnotationBody',
+]);
+
+export interface ApiCallOptions {
+  throttle?: Throttle; // Pool-wide pause shared with other workers (see mapWithConcurrency)
+  timeoutMs?: number;  // Per-attempt timeout (default 60s)
+}
+
+export class ApiTimeoutError extends Error {
+  constructor(operation: string, timeoutMs: number) {
+    super(`${operation} timed out after ${(timeoutMs / 1000).toFixed(0)}s`);
+    this.name = 'ApiTimeoutError';
+  }
+}
+
+interface OperationStats {
+  calls: number;
+  retries: number;
+  recovered: number; // Succeeded after at least one retry
+  failed: number;    // Still failing after the last retry
+  notRetried: number; // Transient failures of non-idempotent calls, not retried because they may have been applied
+}
+
+const globalStats = new Map<string, OperationStats>();
+
+// Separate tallies for tasks running at once (batch --parallel), so one task's summary does not reset another's
+const statsScope = new AsyncLocalStorage<Map<string, OperationStats>>();
+
+function currentStats(): Map<string, OperationStats> {
+  return statsScope.getStore() ?? globalStats;
+}
+
+/**
+ * Run a function with its own retry tallies, reported by the printRetrySummary calls inside it
+ */
+export function withRetryStats<T>(fn: () => Promise<T>): Promise<T> {
+  return statsScope.run(new Map(), fn);
+}
+
+function statsFor(operation: string): OperationStats {
+  const stats = currentStats();
+  let entry = stats.get(operation);
+  if (!entry) {
+    entry = { calls: 0, retries: 0, recovered: 0, failed: 0, notRetried: 0 };
+    stats.set(operation, entry);
+  }
+  return entry;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function statusOf(error: unknown): number | undefined {
+  return (error as { status?: number } | null)?.status;
+}
+
+/**
+ * Whether an API error means "slow down" rather than "failed"
+ */
+export function isThrottled(error: unknown): boolean {
+  const status = statusOf(error);
+  return status === 429 || status === 503;
+}
+
+/**
+ * Whether an API error is a 404 (for deletes and archives: already gone; for lookups: missing)
+ */
+export function isNotFound(error: unknown): boolean {
+  return statusOf(error) === 404;
+}
+
+/**
+ * Whether a failed call is worth retrying: network errors, timeouts, 5xx and 429
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof ApiTimeoutError) {
+    return true;
+  }
+  const status = statusOf(error);
+  if (status !== undefined) {
+    return status >= 500 || status === 429;
+  }
+  // No HTTP status: retry only failures that happened on the wire
+  const err = error as { code?: string; cause?: { code?: string } } | null;
+  if (err?.code && NETWORK_ERROR_CODES.has(err.code)) return true;
+  if (err?.cause?.code && NETWORK_ERROR_CODES.has(err.cause.code)) return true;
+  return error instanceof TypeError && /fetch failed|network/i.test(error.message);
+}
+
+/**
+ * Whether a failed call certainly had no effect on the backend, so even a
+ * non-idempotent operation can be retried: refused or unresolved connections and 429s
+ */
+export function wasNeverApplied(error: unknown): boolean {
+  if (statusOf(error) === 429) {
+    return true;
+  }
+  const err = error as { code?: string; cause?: { code?: string } } | null;
+  return Boolean((err?.code && NOT_SENT_ERROR_CODES.has(err.code)) || (err?.cause?.code && NOT_SENT_ERROR_CODES.has(err.cause.code)));
+}
+
+function describeError(error: unknown): string {
+  const status = statusOf(error);
+  if (status !== undefined) return `HTTP ${status}`;
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function withTimeout<R>(operation: string, call: () => Promise<R>, timeoutMs: number): Promise<R> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ApiTimeoutError(operation, timeoutMs)), timeoutMs);
+  });
+  try {
+    return await Promise.race([call(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run one API operation with timeout, retry and backoff
+ */
+export async function apiCall<R>(
+  operation: string,
+  call: () => Promise<R>,
+  options: ApiCallOptions = {},
+): Promise<R> {
+  const { throttle, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  const entry = statsFor(operation);
+  entry.calls++;
+  const started = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    const wait = throttle ? throttle.pausedUntil - Date.now() : 0;
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    try {
+      const result = await withTimeout(operation, call, timeoutMs);
+      if (attempt > 0) entry.recovered++;
+      log('debug', `${operation} succeeded`, { operation, attempts: attempt + 1, durationMs: Date.now() - started });
+      return result;
+    } catch (error) {
+      const transient = isRetryable(error);
+      const retryable = NON_IDEMPOTENT_OPERATIONS.has(operation) ? wasNeverApplied(error) : transient;
+      if (!retryable || attempt >= MAX_RETRIES) {
+        if (transient) entry.failed++;
+        // A create that may have been applied is left to the caller rather than risking a duplicate
+        const unsafe = transient && !retryable ? ' (not retried: the request may have been applied)' : '';
+        if (unsafe) entry.notRetried++;
+        // Client errors such as 404 are often expected by the caller; retries that ran out are not
+        log(transient ? 'warn' : 'debug', `${operation} failed: ${describeError(error)}${unsafe}`, {
+          operation,
+          attempts: attempt + 1,
+          durationMs: Date.now() - started,
+          status: statusOf(error),
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+      entry.retries++;
+
+      // Full backoff window, then jitter into its upper half so parallel workers spread out
+      const window = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+      const delay = Math.round(window / 2 + Math.random() * (window / 2));
+      printWarning(
+        `${operation}: ${describeError(error)}, retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${MAX_RETRIES})...`,
+        7,
+      );
+      if (throttle && isThrottled(error)) {
+        // The backend is overloaded: pause every worker in the pool, not just this one
+        throttle.pausedUntil = Math.max(throttle.pausedUntil, Date.now() + delay);
+      } else {
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+/**
+ * Print per-operation retry counts since the last summary, including calls that
+ * failed without a retry because they may have been applied (nothing if every
+ * call succeeded first time)
+ */
+export function printRetrySummary(): void {
+  const stats = currentStats();
+  const retried = [...stats.entries()].filter(([, s]) => s.retries > 0 || s.notRetried > 0);
+  // Start counting afresh, so each stage of `run` reports only its own retries
+  stats.clear();
+  if (retried.length === 0) {
+    return;
+  }
+
+  const totalRetries = retried.reduce((sum, [, s]) => sum + s.retries, 0);
+  printLine();
+  printInfo(`API retries: ${totalRetries}`);
+  for (const [operation, s] of retried) {
+    const unsafe = s.notRetried > 0 ? ` (${s.notRetried} not retried: may have been applied)` : '';
+    const line = `  ${operation}: ${s.calls} calls, ${s.retries} retries, ${s.recovered} recovered, ${s.failed} failed${unsafe}`;
+    if (s.failed > 0) {
+      printWarning(line);
+    } else {
+      printInfo(line);
+    }
+  }
+}
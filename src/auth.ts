@@ -8,6 +8,7 @@ import type { SemiontApiClient } from '@semiont/api-client';
 import type { AccessToken } from '@semiont/core';
 import { accessToken, email } from '@semiont/core';
 import { printInfo, printSuccess } from './display';
+import { apiCall } from './api-call';
 
 export interface AuthConfig {
   email?: string;
@@ -28,7 +29,7 @@ export async function authenticate(client: SemiontApiClient, config: AuthConfig)
   } else if (config.email && config.password) {
     printInfo(`Authenticating as ${config.email}...`);
     try {
-      const response = await client.authenticatePassword(email(config.email), config.password);
+      const response = await apiCall('authenticatePassword', () => client.authenticatePassword(email(config.email!), config.password!));
       printSuccess(`Authenticated successfully`);
       return accessToken(response.token);
     } catch (error: unknown) {
@@ -48,13 +49,13 @@ export async function authenticate(client: SemiontApiClient, config: AuthConfig)
     console.error('\n❌ Configuration error:');
     console.error(`   Email: ${config.email}`);
     console.error(`   Password: ${config.password ? '[provided]' : '[MISSING]'}`);
-    throw new Error('Password is required when authenticating with email. Check AUTH_PASSWORD in .env file.');
+    throw new Error('Password is required when authenticating with email. Check AUTH_PASSWORD in .env file, or the password of the selected profile.');
   } else {
     console.error('\n❌ Configuration error:');
     console.error(`   Email: ${config.email || '[not provided]'}`);
     console.error(`   Access Token: ${config.accessToken ? '[provided]' : '[not provided]'}`);
     console.error('\nEither (email + password) or accessToken must be provided.');
-    console.error('Check AUTH_EMAIL and AUTH_PASSWORD or ACCESS_TOKEN in .env file.');
+    console.error('Check AUTH_EMAIL and AUTH_PASSWORD or ACCESS_TOKEN in .env file, or the selected profile.');
     throw new Error('Either (email + password) or accessToken must be provided');
   }
 }
@@ -0,0 +1,226 @@
+/**
+ * Web Annotation Bundles
+ *
+ * A portable export of a dataset: the content of every resource as a file, the
+ * annotations on them as a W3C Web Annotation collection (JSON-LD), and a
+ * manifest describing the resources and the run state they came from.
+ *
+ *   <bundle>/manifest.json         resources (ID, name, media type, file, SHA-256) and state layout
+ *   <bundle>/annotations.jsonld    AnnotationCollection with every annotation
+ *   <bundle>/content/0001-*.md     resource contents
+ *
+ * Resource and annotation IDs are those of the backend the bundle was exported
+ * from; an import maps them to the IDs it creates.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { SemiontApiClient } from '@semiont/api-client';
+import type { AnnotationId, ResourceId } from '@semiont/core';
+import type { StateResources } from './state.js';
+import { EXTENSIONS, slugify } from './dry-run.js';
+
+/**
+ * Current bundle format version written to every manifest
+ */
+export const BUNDLE_VERSION = 1;
+
+const ANNOTATION_CONTEXT = 'http://www.w3.org/ns/anno.jsonld';
+
+export interface TextPositionSelector {
+  type: 'TextPositionSelector';
+  start: number;
+  end: number;
+}
+
+export interface TextQuoteSelector {
+  type: 'TextQuoteSelector';
+  exact: string;
+  prefix?: string;
+  suffix?: string;
+}
+
+export type Selector = TextPositionSelector | TextQuoteSelector;
+
+export interface SpecificResourceBody {
+  type: 'SpecificResource';
+  source: string;
+  purpose?: string;
+}
+
+export interface TextualBody {
+  type: 'TextualBody';
+  value: string;
+  purpose?: string;
+  format?: string;
+  language?: string;
+}
+
+export type AnnotationBody = SpecificResourceBody | TextualBody;
+
+/**
+ * A W3C Web Annotation, limited to the selectors and bodies the demo creates
+ */
+export interface WebAnnotation {
+  id: AnnotationId;
+  type: 'Annotation';
+  motivation: string;
+  created?: string;
+  creator?: unknown;
+  target: { source: ResourceId; selector: Selector[] };
+  body: AnnotationBody[];
+}
+
+export interface AnnotationCollection {
+  '@context': string;
+  id: string;
+  type: 'AnnotationCollection';
+  label: string;
+  total: number;
+  first: { type: 'AnnotationPage'; startIndex: 0; items: WebAnnotation[] };
+}
+
+export interface BundleResource {
+  id: ResourceId;
+  name: string;
+  mediaType: string;
+  entityTypes: string[];
+  language?: string;
+  file: string;   // Relative to the bundle directory
+  sha256: string;
+}
+
+export interface BundleManifest {
+  version: number;
+  dataset: string;
+  displayName: string;
+  exportedAt: string;
+  backend?: string;          // URL of the backend the IDs belong to
+  resources: BundleResource[];
+  annotations: string;       // Collection file, relative to the bundle directory
+  state: StateResources;     // Run state at export time, with the exported backend's IDs
+}
+
+/**
+ * An annotation as the backend returns it from getResourceAnnotations
+ */
+export type BackendAnnotation = Awaited<ReturnType<SemiontApiClient['getResourceAnnotations']>>['annotations'][number];
+
+/**
+ * Bundle-relative path for a resource's content file
+ */
+export function contentFile(index: number, name: string, mediaType: string): string {
+  const ext = EXTENSIONS[mediaType.split(';')[0].trim()] ?? 'bin';
+  return join('content', `${String(index + 1).padStart(4, '0')}-${slugify(name)}.${ext}`);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toSelector(raw: unknown): Selector | undefined {
+  const selector = raw as Record<string, unknown>;
+  if (selector?.type === 'TextPositionSelector' && typeof selector.start === 'number' && typeof selector.end === 'number') {
+    return { type: 'TextPositionSelector', start: selector.start, end: selector.end };
+  }
+  if (selector?.type === 'TextQuoteSelector' && typeof selector.exact === 'string') {
+    return {
+      type: 'TextQuoteSelector',
+      exact: selector.exact,
+      ...(typeof selector.prefix === 'string' && { prefix: selector.prefix }),
+      ...(typeof selector.suffix === 'string' && { suffix: selector.suffix }),
+    };
+  }
+  return undefined;
+}
+
+function toBody(raw: unknown): AnnotationBody | undefined {
+  const body = raw as Record<string, unknown>;
+  const purpose = typeof body?.purpose === 'string' ? { purpose: body.purpose } : {};
+  if (body?.type === 'SpecificResource' && typeof body.source === 'string') {
+    return { type: 'SpecificResource', source: body.source, ...purpose };
+  }
+  if (body?.type === 'TextualBody' && typeof body.value === 'string') {
+    return {
+      type: 'TextualBody',
+      value: body.value,
+      ...purpose,
+      ...(typeof body.format === 'string' && { format: body.format }),
+      ...(typeof body.language === 'string' && { language: body.language }),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Convert an annotation as returned by the backend to a Web Annotation.
+ * Selectors other than TextPosition/TextQuote and bodies other than
+ * SpecificResource/TextualBody are dropped and counted.
+ */
+export function toWebAnnotation(raw: BackendAnnotation, resourceId: ResourceId): { annotation: WebAnnotation; dropped: number } {
+  const target = typeof raw.target === 'string' ? { source: raw.target, selector: undefined } : raw.target;
+  const rawSelectors = asArray(target.selector);
+  const rawBodies = asArray(raw.body);
+  const selector = rawSelectors.map(toSelector).filter((s): s is Selector => s !== undefined);
+  const body = rawBodies.map(toBody).filter((b): b is AnnotationBody => b !== undefined);
+
+  return {
+    annotation: {
+      id: raw.id as AnnotationId,
+      type: 'Annotation',
+      motivation: raw.motivation,
+      ...(raw.created !== undefined && { created: raw.created }),
+      ...(raw.creator !== undefined && { creator: raw.creator }),
+      target: { source: (target.source || resourceId) as ResourceId, selector },
+      body,
+    },
+    dropped: rawSelectors.length - selector.length + rawBodies.length - body.length,
+  };
+}
+
+/**
+ * Start a bundle in a directory, removing content files from an earlier export
+ */
+export function prepareBundleDir(dir: string): void {
+  rmSync(join(dir, 'content'), { recursive: true, force: true });
+  mkdirSync(join(dir, 'content'), { recursive: true });
+}
+
+/**
+ * Write the annotation collection and the manifest (content files are written as they are fetched)
+ */
+export function writeBundle(dir: string, manifest: Omit<BundleManifest, 'annotations'>, annotations: WebAnnotation[]): BundleManifest {
+  const collection: AnnotationCollection = {
+    '@context': ANNOTATION_CONTEXT,
+    id: 'annotations.jsonld',
+    type: 'AnnotationCollection',
+    label: `${manifest.displayName} (${manifest.dataset})`,
+    total: annotations.length,
+    first: { type: 'AnnotationPage', startIndex: 0, items: annotations },
+  };
+  const full: BundleManifest = { ...manifest, annotations: 'annotations.jsonld' };
+  writeFileSync(join(dir, full.annotations), JSON.stringify(collection, null, 2));
+  writeFileSync(join(dir, 'manifest.json'), JSON.stringify(full, null, 2));
+  return full;
+}
+
+/**
+ * Read a bundle's manifest and annotations, checking the format version and that every content file is present
+ */
+export function readBundle(dir: string): { manifest: BundleManifest; annotations: WebAnnotation[] } {
+  const manifestPath = join(dir, 'manifest.json');
+  if (!existsSync(manifestPath)) {
+    throw new Error(`Not a bundle: ${manifestPath} not found`);
+  }
+  const manifest: BundleManifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+  if (manifest.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${manifest.version} (this CLI reads version ${BUNDLE_VERSION})`);
+  }
+  const missing = manifest.resources.filter(resource => !existsSync(join(dir, resource.file)));
+  if (missing.length > 0) {
+    throw new Error(`Bundle is missing ${missing.length} content files: ${missing.map(resource => resource.file).join(', ')}`);
+  }
+  const collection: AnnotationCollection = JSON.parse(readFileSync(join(dir, manifest.annotations), 'utf-8'));
+  return { manifest, annotations: collection.first?.items ?? [] };
+}
@@ -0,0 +1,102 @@
+/**
+ * Upload Checkpoint Journal
+ *
+ * Records each successful createResource as it happens, keyed by document
+ * identity (title plus content hash). When a load dies partway through, the
+ * next run reuses the recorded resource IDs instead of uploading duplicates,
+ * and only items that never succeeded are sent again.
+ */
+
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { createHash } from 'node:crypto';
+import type { ResourceId } from '@semiont/core';
+
+export interface JournalEntry {
+  title: string;
+  resourceId: ResourceId;
+  uploadedAt: string;
+}
+
+export interface UploadJournal {
+  path: string;
+  entries: Record<string, JournalEntry>;
+  steps: string[]; // Completed follow-up steps (e.g. annotations created on a resource)
+}
+
+/**
+ * Journal path for a dataset: stored next to its state file, in the same profile namespace
+ * (".state.staging.json" → ".upload-journal.staging.json")
+ */
+export function journalPathFor(stateFile: string): string {
+  return join(dirname(stateFile), basename(stateFile).replace(/^\.state/, '.upload-journal'));
+}
+
+/**
+ * Open (or start) the journal at the given path
+ */
+export function openJournal(path: string): UploadJournal {
+  if (!existsSync(path)) {
+    return { path, entries: {}, steps: [] };
+  }
+  const data = JSON.parse(readFileSync(path, 'utf-8')) as Partial<Omit<UploadJournal, 'path'>>;
+  return { path, entries: data.entries ?? {}, steps: data.steps ?? [] };
+}
+
+/**
+ * Identity of an uploaded item: title plus SHA-256 of its content
+ */
+export function journalKey(title: string, content: string | Buffer): string {
+  const hash = createHash('sha256').update(content).digest('hex');
+  return `${title}::${hash}`;
+}
+
+/**
+ * Resource ID recorded for an item, if it was uploaded by an earlier run
+ */
+export function findUpload(journal: UploadJournal, key: string): ResourceId | undefined {
+  return journal.entries[key]?.resourceId;
+}
+
+/**
+ * Record a successful upload and flush the journal to disk immediately
+ */
+export function recordUpload(journal: UploadJournal, key: string, title: string, resourceId: ResourceId): void {
+  journal.entries[key] = { title, resourceId, uploadedAt: new Date().toISOString() };
+  saveJournal(journal);
+}
+
+/**
+ * Whether a follow-up step was completed by an earlier run
+ */
+export function isStepDone(journal: UploadJournal, step: string): boolean {
+  return journal.steps.includes(step);
+}
+
+/**
+ * Record a completed follow-up step and flush the journal to disk immediately
+ */
+export function markStepDone(journal: UploadJournal, step: string): void {
+  journal.steps.push(step);
+  saveJournal(journal);
+}
+
+function saveJournal(journal: UploadJournal): void {
+  writeFileSync(journal.path, JSON.stringify({ entries: journal.entries, steps: journal.steps }, null, 2));
+}
+
+/**
+ * All resource IDs recorded in the journal
+ */
+export function journalResourceIds(journal: UploadJournal): ResourceId[] {
+  return Object.values(journal.entries).map(entry => entry.resourceId);
+}
+
+/**
+ * Delete the journal once its uploads are accounted for elsewhere (state file or teardown)
+ */
+export function clearJournal(journal: UploadJournal): void {
+  journal.entries = {};
+  journal.steps = [];
+  rmSync(journal.path, { force: true });
+}
@@ -5,10 +5,34 @@
  * original formatting including newlines and whitespace.
  */
 
+import { extractOpinionSections } from './legal-text.js';
+
 export interface ChunkInfo {
   partNumber: number;
   content: string;
   title: string;
+  start: number; // Where content lies in the chunked text: content is text.substring(start, end)
+  end: number;
+  overlap?: ChunkOverlap; // Set by addOverlap: context repeated from the neighbouring chunks
+  section?: string;       // Structure-aware chunks: where the chunk sits, e.g. "Opinion › II › B"
+  metadata?: Record<string, string>; // Legal opinion chunks: opinion kind, justice and Part
+}
+
+/**
+ * Characters of a chunk's content that repeat its neighbours. The rest, from
+ * `before` to `content.length - after`, is the region the chunk owns.
+ */
+export interface ChunkOverlap {
+  before: number; // Leading characters repeated from the end of the previous chunk
+  after: number;  // Trailing characters repeated from the start of the next chunk
+}
+
+/**
+ * A range of a text, from `start` up to (not including) `end`
+ */
+export interface TextRange {
+  start: number;
+  end: number;
 }
 
 export interface ChunkingOptions {
@@ -70,38 +94,132 @@ function findParagraphBreaks(text: string): number[] {
 }
 
 /**
- * Finds the best break point near the target position
- * Prefers breaks before target, but will use first break after if none before
+ * Narrow a range of text past its leading and trailing whitespace (as trim() would)
+ */
+function trimRange(text: string, start: number, end: number): TextRange {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+/**
+ * Boundaries a chunk can end at, strongest first
  */
-function findBestBreakPoint(
-  breakPoints: number[],
-  startPos: number,
-  targetEnd: number
-): number {
-  let bestBreak = breakPoints[breakPoints.length - 1]; // Default to end
-  let foundBreakBeforeTarget = false;
+type BoundaryLevel = 'paragraph' | 'line' | 'sentence' | 'word';
 
-  for (const bp of breakPoints) {
-    if (bp <= startPos) {
-      // Skip breaks at or before our start
+const BOUNDARY_CASCADE: BoundaryLevel[] = ['paragraph', 'line', 'sentence', 'word'];
+
+// Words that end in a period without ending the sentence ("Citizens United v. FEC", "No. 08-205", "Roberts, C.J.")
+const ABBREVIATIONS = new Set([
+  'v', 'vs', 'no', 'nos', 'inc', 'co', 'corp', 'ltd', 'llc', 'mr', 'mrs', 'ms', 'dr', 'st', 'jr', 'sr',
+  'j', 'jj', 'ct', 'cir', 'supp', 'app', 'art', 'sec', 'secs', 'ch', 'cl', 'ed', 'eds', 'id', 'ibid', 'cf',
+  'al', 'etc', 'p', 'pp', 'para', 'fig', 'vol', 'rev', 'stat', 'ann', 'amend', 'const', 'govt', 'dept',
+  'assn', 'cong', 'sess', 'fed', 'reg', 'rel', 'ex', 'seq', 'e.g', 'i.e',
+]);
+
+/**
+ * Positions just after each match of a pattern (the start of the next unit)
+ */
+function matchEnds(text: string, pattern: RegExp): number[] {
+  return [...text.matchAll(pattern)].map(match => match.index! + match[0].length);
+}
+
+/**
+ * Sentence starts: after ".", "!" or "?" (and closing quotes or brackets) and
+ * whitespace, unless the period ends an abbreviation, an initial or a dotted
+ * acronym ("U.S.", "U.S.C."), or the next word starts in lowercase or with a digit
+ */
+function findSentenceBreaks(text: string): number[] {
+  const breaks: number[] = [];
+  for (const match of text.matchAll(/[.!?]+["'”’)\]]*\s+/g)) {
+    const next = text[match.index! + match[0].length];
+    if (next === undefined || /[\p{Ll}\d]/u.test(next)) {
       continue;
     }
-
-    if (bp <= targetEnd) {
-      // This break is within target range, keep updating
-      bestBreak = bp;
-      foundBreakBeforeTarget = true;
-    } else if (!foundBreakBeforeTarget) {
-      // No break before target, use this first break after target
-      bestBreak = bp;
-      break;
-    } else {
-      // We found a break before target, stop looking
-      break;
+    if (match[0].startsWith('.')) {
+      const word = (text.slice(Math.max(0, match.index! - 20), match.index).match(/[^\s(\["'“‘]+$/)?.[0] ?? '');
+      if (ABBREVIATIONS.has(word.toLowerCase()) || /^\p{L}$/u.test(word) || /^(\p{L}\.)+\p{L}$/u.test(word)) {
+        continue;
+      }
     }
+    breaks.push(match.index! + match[0].length);
+  }
+  return breaks;
+}
+
+function findBoundaries(text: string, level: BoundaryLevel): number[] {
+  switch (level) {
+    case 'paragraph':
+      return findParagraphBreaks(text);
+    case 'line':
+      return matchEnds(text, /\r?\n/g);
+    case 'sentence':
+      return findSentenceBreaks(text);
+    case 'word':
+      return matchEnds(text, /\s+/g);
   }
+}
+
+/**
+ * Splits text into pieces for which `fits(start, end)` holds (it must only get
+ * harder to fit as `end` grows). Each piece ends at the last boundary that fits,
+ * trying the levels in order: with the full cascade, paragraph breaks, then line
+ * breaks, then sentence ends, then spaces between words. Only a single word
+ * longer than the limit is cut mid-word. Returns the ranges of the pieces, trimmed.
+ */
+function splitAtBoundaries(
+  text: string,
+  fits: (start: number, end: number) => boolean,
+  levels: BoundaryLevel[] = BOUNDARY_CASCADE,
+): TextRange[] {
+  // Boundaries are found per level on first use; most texts never need the finer levels
+  const found = new Map<BoundaryLevel, number[]>();
+  const boundaries = (level: BoundaryLevel) => {
+    if (!found.has(level)) found.set(level, findBoundaries(text, level));
+    return found.get(level)!;
+  };
 
-  return bestBreak;
+  // Last candidate after start that still fits (candidates ascending), by binary search
+  const lastFitting = (start: number, candidates: number[]): number | undefined => {
+    let lo = candidates.findIndex(position => position > start);
+    if (lo === -1 || !fits(start, candidates[lo])) return undefined;
+    let hi = candidates.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (fits(start, candidates[mid])) lo = mid; else hi = mid - 1;
+    }
+    return candidates[lo];
+  };
+
+  const pieces: TextRange[] = [];
+  let start = 0;
+  while (start < text.length) {
+    while (start < text.length && /\s/.test(text[start])) start++;
+    if (start >= text.length) break;
+
+    let end: number | undefined = text.length;
+    if (!fits(start, end)) {
+      end = undefined;
+      for (const level of levels) {
+        end = lastFitting(start, boundaries(level));
+        if (end !== undefined) break;
+      }
+    }
+    if (end === undefined) {
+      // Mid-word cut: the longest prefix that fits, at least one character
+      let lo = start + 1;
+      let hi = text.length;
+      while (lo < hi) {
+        const mid = Math.ceil((lo + hi) / 2);
+        if (fits(start, mid)) lo = mid; else hi = mid - 1;
+      }
+      end = lo;
+    }
+
+    pieces.push(trimRange(text, start, end));
+    start = end;
+  }
+  return pieces;
 }
 
 /**
@@ -122,11 +240,13 @@ export function chunkBySize(
   let partNumber = 1;
 
   for (let i = 0; i < text.length; i += chunkSize) {
-    const content = text.slice(i, i + chunkSize);
+    const end = Math.min(i + chunkSize, text.length);
     chunks.push({
       partNumber,
       title: `${titlePrefix} ${partNumber}`,
-      content,
+      content: text.slice(i, end),
+      start: i,
+      end,
     });
     partNumber++;
   }
@@ -136,7 +256,10 @@ export function chunkBySize(
 
 /**
  * Chunks text into segments at natural paragraph boundaries
- * Preserves original formatting by using substring extraction
+ * Preserves original formatting by using substring extraction. No chunk is
+ * longer than targetChunkSize: a paragraph that does not fit is split at line
+ * breaks, then sentence ends, then between words (see splitAtBoundaries), so
+ * text without blank lines (e.g. whitespace-collapsed HTML) is chunked too.
  *
  * @param text - Text to chunk
  * @param targetChunkSize - Target size for each chunk in characters
@@ -148,39 +271,401 @@ export function chunkText(
   targetChunkSize: number,
   titlePrefix: string
 ): ChunkInfo[] {
+  return splitAtBoundaries(text, (start, end) => end - start <= targetChunkSize).map(({ start, end }, i) => ({
+    partNumber: i + 1,
+    content: text.substring(start, end),
+    title: `${titlePrefix} ${i + 1}`,
+    start,
+    end,
+  }));
+}
+
+// ============================================================================
+// Token-budgeted chunking
+// ============================================================================
+
+/**
+ * Counts the model tokens in a piece of text. Counts must be (roughly)
+ * additive, so the tokens of a chunk are the sum of its paragraphs' tokens.
+ */
+export interface Tokenizer {
+  name: string;
+  countTokens(text: string): number;
+}
+
+// GPT-2 style pre-tokenization: contractions, words and numbers with their leading space, punctuation runs, whitespace
+const PRE_TOKEN_PATTERN = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+function estimatePreToken(piece: string): number {
+  const text = piece.trimStart();
+  if (!text) {
+    return 1; // A whitespace run
+  }
+  if (/^\p{N}+$/u.test(text)) {
+    return Math.ceil(text.length / 3); // Digits merge in groups of up to three
+  }
+  if (/^\p{L}+$/u.test(text)) {
+    if (CJK_PATTERN.test(text)) {
+      return text.length; // Roughly one token per ideograph or syllable block
+    }
+    if (/^[A-Za-z]+$/.test(text)) {
+      // Common English words are one token; longer words split into ~4-character pieces
+      return text.length <= 6 ? 1 : 1 + Math.ceil((text.length - 6) / 4);
+    }
+    return Math.ceil(text.length / 2); // Accented and non-Latin scripts have fewer merges
+  }
+  // Punctuation: short runs ("." "),") merge, long runs ("-----") pair up, non-ASCII symbols ("§", "¶") cost two
+  const nonAscii = [...text].filter(c => c.charCodeAt(0) > 0x7f).length;
+  return Math.max(1, Math.ceil((text.length - nonAscii) / 2)) + nonAscii;
+}
+
+/**
+ * Offline estimate of BPE token counts (GPT-style vocabularies), within about
+ * 10-15% on English prose. Citations, numbers and non-English text count higher
+ * than their character length suggests, which is why token budgets exist.
+ */
+export const bpeEstimator: Tokenizer = {
+  name: 'bpe-estimate',
+  countTokens(text: string): number {
+    let tokens = 0;
+    for (const match of text.matchAll(PRE_TOKEN_PATTERN)) {
+      tokens += estimatePreToken(match[0]);
+    }
+    return tokens;
+  },
+};
+
+export interface TokenChunkingOptions {
+  targetTokens: number;   // Preferred chunk size; chunks end at the last paragraph break within it
+  maxTokens?: number;     // Hard limit: longer paragraphs are split at lines, sentences or words (default 1.5 × targetTokens)
+  tokenizer?: Tokenizer;  // Default: bpeEstimator
+}
+
+/**
+ * Chunks text at paragraph boundaries by model tokens instead of characters
+ * A chunk ends at the last paragraph break within the target (or the first one
+ * after it); a paragraph longer than maxTokens is split at line breaks, sentence
+ * ends or between words into pieces of about targetTokens.
+ *
+ * @param text - Text to chunk
+ * @param options - Token budget and tokenizer
+ * @param titlePrefix - Prefix for chunk titles (e.g., "Citizens United - Part")
+ * @returns Array of chunk information
+ */
+export function chunkByTokens(
+  text: string,
+  options: TokenChunkingOptions,
+  titlePrefix: string
+): ChunkInfo[] {
+  const { targetTokens, maxTokens = Math.round(targetTokens * 1.5), tokenizer = bpeEstimator } = options;
+  if (maxTokens < targetTokens) {
+    throw new Error(`maxTokens (${maxTokens}) must be at least targetTokens (${targetTokens})`);
+  }
+
+  // Tokens before each paragraph break, so a candidate chunk is counted without re-tokenizing it
   const breakPoints = findParagraphBreaks(text);
-  const chunks: ChunkInfo[] = [];
-  let startPos = 0;
-  let partNumber = 1;
+  const tokensBefore = [0];
+  for (let i = 1; i < breakPoints.length; i++) {
+    tokensBefore.push(tokensBefore[i - 1] + tokenizer.countTokens(text.substring(breakPoints[i - 1], breakPoints[i])));
+  }
 
-  while (startPos < text.length) {
-    // Find the best break point near startPos + targetChunkSize
-    const targetEnd = startPos + targetChunkSize;
-    const bestBreak = findBestBreakPoint(breakPoints, startPos, targetEnd);
+  const chunks: ChunkInfo[] = [];
+  const push = (from: number, to: number) => {
+    const { start, end } = trimRange(text, from, to);
+    if (end > start) {
+      const partNumber = chunks.length + 1;
+      chunks.push({ partNumber, content: text.substring(start, end), title: `${titlePrefix} ${partNumber}`, start, end });
+    }
+  };
 
-    // Skip leading whitespace at start position
-    while (startPos < bestBreak && /\s/.test(text[startPos])) {
-      startPos++;
+  let start = 0;
+  while (start < breakPoints.length - 1) {
+    let end = start + 1;
+    while (end + 1 < breakPoints.length && tokensBefore[end + 1] - tokensBefore[start] <= targetTokens) {
+      end++;
     }
+    const offset = breakPoints[start];
+    const content = text.substring(offset, breakPoints[end]);
+    if (tokensBefore[end] - tokensBefore[start] > maxTokens) {
+      splitAtBoundaries(content, (from, to) => tokenizer.countTokens(content.substring(from, to)) <= targetTokens, ['line', 'sentence', 'word'])
+        .forEach(piece => push(offset + piece.start, offset + piece.end));
+    } else {
+      push(offset, breakPoints[end]);
+    }
+    start = end;
+  }
+
+  return chunks;
+}
+
+// ============================================================================
+// Markdown heading chunking
+// ============================================================================
+
+export interface HeadingChunkingOptions {
+  headingDepth?: number; // Split at headings of this level and above (default 3: #, ## and ###)
+  splitSection?: (section: string) => TextRange[]; // Split an oversized section, returning the pieces' ranges within it
+}
 
-    // Extract chunk exactly as-is from original text
-    const content = text.substring(startPos, bestBreak).trim();
+interface MarkdownSection {
+  path: string[]; // Titles of the section's heading and its ancestors
+  start: number;  // Offset of the heading line (0 for text before the first heading)
+  end: number;
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const CODE_FENCE = /^ {0,3}(```|~~~)/;
+
+/**
+ * Sections of a markdown document at ATX headings (# to ######) up to a depth,
+ * ignoring lines inside fenced code blocks
+ */
+function findMarkdownSections(text: string, depth: number): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let current = { path: [] as string[], start: 0 };
+  let fence: string | undefined;
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
 
-    if (content) {
-      chunks.push({
-        partNumber,
-        content,
-        title: `${titlePrefix} ${partNumber}`,
-      });
-      partNumber++;
+    const fenceMatch = line.match(CODE_FENCE);
+    if (fenceMatch) {
+      fence = fence === undefined ? fenceMatch[1] : fence === fenceMatch[1] ? undefined : fence;
+      continue;
+    }
+    const heading = fence === undefined ? line.match(ATX_HEADING) : null;
+    if (!heading || heading[1].length > depth) {
+      continue;
     }
 
-    startPos = bestBreak;
+    sections.push({ ...current, end: lineStart });
+    const level = heading[1].length;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    stack.push({ level, title: heading[2].replace(/[*_`]/g, '').trim() });
+    current = { path: stack.map(h => h.title), start: lineStart };
   }
+  sections.push({ ...current, end: text.length });
+  return sections;
+}
+
+/**
+ * The pieces of a section, split by `splitSection` if given, as ranges of the
+ * whole text numbered 1 to count
+ */
+function splitRange(
+  text: string,
+  range: TextRange,
+  splitSection: ((section: string) => TextRange[]) | undefined,
+): (TextRange & { index: number; count: number })[] {
+  const pieces = splitSection ? splitSection(text.substring(range.start, range.end)) : [{ start: 0, end: range.end - range.start }];
+  return pieces.map((piece, k) => ({
+    start: range.start + piece.start,
+    end: range.start + piece.end,
+    index: k + 1,
+    count: pieces.length,
+  }));
+}
+
+/**
+ * Chunks markdown at its headings, titling each chunk with its heading path
+ * A section holding only its heading (e.g. "# Opinion" directly followed by
+ * "## I") is kept with the section after it; sections longer than the size
+ * budget are split by `splitSection` and numbered ("Opinion › II (2/3)").
+ *
+ * @param text - Markdown to chunk
+ * @param options - Heading depth and how to split oversized sections
+ * @param titlePrefix - Prefix for chunk titles (e.g., "Citizens United"), followed by " - <heading path>"
+ * @returns Array of chunk information
+ */
+export function chunkByHeadings(
+  text: string,
+  options: HeadingChunkingOptions,
+  titlePrefix: string
+): ChunkInfo[] {
+  const { headingDepth = 3, splitSection } = options;
+  const sections = findMarkdownSections(text, headingDepth);
+  const chunks: ChunkInfo[] = [];
+  let carriedFrom: number | undefined;
+
+  sections.forEach((section, i) => {
+    const start = carriedFrom ?? section.start;
+    const body = text.substring(section.start, section.end);
+    const headingOnly = section.path.length > 0 && body.slice(body.indexOf('\n') + 1).trim() === '';
+    if (headingOnly && i < sections.length - 1) {
+      carriedFrom = start;
+      return;
+    }
+    carriedFrom = undefined;
+
+    const range = trimRange(text, start, section.end);
+    if (range.end === range.start) {
+      return;
+    }
+    const label = section.path.length > 0 ? section.path.join(' › ') : 'Front matter';
+    for (const piece of splitRange(text, range, splitSection)) {
+      const partNumber = chunks.length + 1;
+      const name = piece.count > 1 ? `${label} (${piece.index}/${piece.count})` : label;
+      chunks.push({ partNumber, content: text.substring(piece.start, piece.end), title: `${titlePrefix} - ${name}`, section: name, start: piece.start, end: piece.end });
+    }
+  });
 
   return chunks;
 }
 
+// ============================================================================
+// Legal opinion chunking
+// ============================================================================
+
+/**
+ * Chunks a court opinion at its structure: the syllabus, the opinion of the
+ * Court, each concurrence and dissent, and their numbered Parts (see
+ * extractOpinionSections). Chunks are titled with the section, e.g.
+ * "Dissent (Justice Stevens) › II", and record the opinion kind, its author and
+ * the Part in `metadata`. Sections longer than the size budget are split by
+ * `splitSection` and numbered like markdown sections.
+ *
+ * @param text - Opinion text (with or without line breaks)
+ * @param splitSection - How to split an oversized section (pieces must be substrings of it)
+ * @param titlePrefix - Prefix for chunk titles (e.g., "Citizens United"), followed by " - <section>"
+ * @returns Array of chunk information
+ */
+export function chunkByOpinion(
+  text: string,
+  splitSection: ((section: string) => TextRange[]) | undefined,
+  titlePrefix: string
+): ChunkInfo[] {
+  const chunks: ChunkInfo[] = [];
+  for (const section of extractOpinionSections(text)) {
+    const range = trimRange(text, section.start, section.end);
+    const metadata: Record<string, string> = {
+      opinion: section.kind,
+      ...(section.justice && { justice: section.justice }),
+      ...(section.part && { part: section.part }),
+    };
+    for (const piece of splitRange(text, range, splitSection)) {
+      const name = piece.count > 1 ? `${section.label} (${piece.index}/${piece.count})` : section.label;
+      chunks.push({ partNumber: chunks.length + 1, content: text.substring(piece.start, piece.end), title: `${titlePrefix} - ${name}`, section: name, metadata, start: piece.start, end: piece.end });
+    }
+  }
+  return chunks;
+}
+
+// ============================================================================
+// Overlapping chunks
+// ============================================================================
+
+/**
+ * How much context each chunk repeats from its neighbours (one of the two)
+ */
+export interface OverlapOptions {
+  characters?: number; // Up to this many characters, widened or narrowed to whole words
+  paragraphs?: number; // This many whole paragraphs
+}
+
+/**
+ * Extend every chunk with context from its neighbours, so an argument or
+ * citation cut at a chunk boundary is complete in at least one chunk. Each
+ * chunk records the repeated ranges in `overlap`; see ownedRange.
+ */
+export function addOverlap(text: string, chunks: ChunkInfo[], options: OverlapOptions): ChunkInfo[] {
+  const { characters = 0, paragraphs = 0 } = options;
+  if (characters <= 0 && paragraphs <= 0) {
+    return chunks;
+  }
+  if (characters > 0 && paragraphs > 0) {
+    throw new Error('Overlap is either in characters or in paragraphs, not both');
+  }
+  const ranges: TextRange[] = chunks;
+  const breakPoints = findParagraphBreaks(text);
+
+  return chunks.map((chunk, i) => {
+    const { start, end } = ranges[i];
+    // Never reach past the neighbouring chunk itself
+    const earliest = i > 0 ? ranges[i - 1].start : start;
+    const latest = i < chunks.length - 1 ? ranges[i + 1].end : end;
+
+    let from = start;
+    let to = end;
+    if (paragraphs > 0) {
+      // Paragraph starts; a chunk cut mid-paragraph counts the rest of that paragraph as one
+      const before = breakPoints.filter(bp => bp < start);
+      const after = breakPoints.filter(bp => bp > end);
+      const endsParagraph = after.length > 0 && text.substring(end, after[0]).trim() === '';
+      from = Math.max(earliest, before[before.length - paragraphs] ?? earliest);
+      to = Math.min(latest, after[endsParagraph ? paragraphs : paragraphs - 1] ?? latest);
+    } else {
+      // Start and end on word boundaries
+      from = Math.max(earliest, start - characters);
+      while (from < start && from > 0 && !/\s/.test(text[from - 1])) from++;
+      to = Math.min(latest, end + characters);
+      while (to > end && to < text.length && !/\s/.test(text[to])) to--;
+    }
+    while (from < start && /\s/.test(text[from])) from++;
+    while (to > end && /\s/.test(text[to - 1])) to--;
+
+    return {
+      ...chunk,
+      content: text.substring(from, to),
+      start: from,
+      end: to,
+      overlap: { before: start - from, after: to - end },
+    };
+  });
+}
+
+/**
+ * The part of a chunk's content it owns (all of it without overlap). Annotations
+ * are created only for matches that start here, so overlapping text is annotated once.
+ */
+export function ownedRange(chunk: ChunkInfo): TextRange {
+  return {
+    start: chunk.overlap?.before ?? 0,
+    end: chunk.content.length - (chunk.overlap?.after ?? 0),
+  };
+}
+
+/**
+ * Where an uploaded chunk's content lies in the text it was cut from. Load
+ * records these in state so annotate pairs each chunk ID with the text that was
+ * uploaded, not with what the current chunker would cut.
+ */
+export interface ChunkRange extends TextRange {
+  title: string;
+  overlap?: ChunkOverlap;
+}
+
+/**
+ * The ranges to record for a list of chunks
+ */
+export function chunkRanges(chunks: ChunkInfo[]): ChunkRange[] {
+  return chunks.map(chunk => ({
+    title: chunk.title,
+    start: chunk.start,
+    end: chunk.end,
+    ...(chunk.overlap ? { overlap: chunk.overlap } : {}),
+  }));
+}
+
+/**
+ * Rebuild chunks from the ranges recorded by chunkRanges
+ */
+export function chunksFromRanges(text: string, ranges: ChunkRange[]): ChunkInfo[] {
+  return ranges.map((range, i) => ({
+    title: range.title,
+    content: text.substring(range.start, range.end),
+    partNumber: i + 1,
+    start: range.start,
+    end: range.end,
+    ...(range.overlap ? { overlap: range.overlap } : {}),
+  }));
+}
+
 /**
  * Downloads text from a URL and chunks it into segments
  * Main entry point combining download, extraction, and chunking
@@ -216,12 +701,17 @@ export interface ChunkingStats {
   averageChunkSize: number;
   minChunkSize: number;
   maxChunkSize: number;
+  tokenizer: string;
+  totalTokens: number;
+  averageTokens: number;
+  minTokens: number;
+  maxTokens: number;
 }
 
 /**
- * Calculate statistics for a set of chunks
+ * Calculate statistics for a set of chunks, in characters and in tokens
  */
-export function getChunkingStats(chunks: ChunkInfo[]): ChunkingStats {
+export function getChunkingStats(chunks: ChunkInfo[], tokenizer: Tokenizer = bpeEstimator): ChunkingStats {
   if (chunks.length === 0) {
     return {
       totalChunks: 0,
@@ -229,11 +719,18 @@ export function getChunkingStats(chunks: ChunkInfo[]): ChunkingStats {
       averageChunkSize: 0,
       minChunkSize: 0,
       maxChunkSize: 0,
+      tokenizer: tokenizer.name,
+      totalTokens: 0,
+      averageTokens: 0,
+      minTokens: 0,
+      maxTokens: 0,
     };
   }
 
   const lengths = chunks.map(c => c.content.length);
   const totalCharacters = lengths.reduce((sum, len) => sum + len, 0);
+  const tokens = chunks.map(c => tokenizer.countTokens(c.content));
+  const totalTokens = tokens.reduce((sum, count) => sum + count, 0);
 
   return {
     totalChunks: chunks.length,
@@ -241,5 +738,99 @@ export function getChunkingStats(chunks: ChunkInfo[]): ChunkingStats {
     averageChunkSize: Math.round(totalCharacters / chunks.length),
     minChunkSize: Math.min(...lengths),
     maxChunkSize: Math.max(...lengths),
+    tokenizer: tokenizer.name,
+    totalTokens,
+    averageTokens: Math.round(totalTokens / chunks.length),
+    minTokens: Math.min(...tokens),
+    maxTokens: Math.max(...tokens),
   };
 }
+
+// ============================================================================
+// Dataset chunking
+// ============================================================================
+
+/**
+ * How chunkDocument splits a document: by size alone, or at its structure first
+ */
+export const CHUNK_STRATEGIES = ['size', 'markdown', 'legal-opinion'] as const;
+export type ChunkStrategy = typeof CHUNK_STRATEGIES[number];
+
+/**
+ * The chunking fields of a single-document dataset's config
+ */
+export interface DocumentChunkingConfig {
+  chunkStrategy?: ChunkStrategy;
+  headingDepth?: number;
+  chunkSize?: number;
+  useSmartChunking?: boolean;
+  targetTokens?: number;
+  maxTokens?: number;
+  overlapChars?: number;
+  overlapParagraphs?: number;
+}
+
+/**
+ * Split a structural section (markdown or legal opinion) that is over the size budget at paragraph breaks
+ * (by tokens with targetTokens, by characters with chunkSize; unsplit without either)
+ */
+function sectionSplitter(config: DocumentChunkingConfig): ((section: string) => TextRange[]) | undefined {
+  const range = ({ start, end }: ChunkInfo): TextRange => ({ start, end });
+  if (config.targetTokens) {
+    const options = { targetTokens: config.targetTokens, maxTokens: config.maxTokens };
+    return section => chunkByTokens(section, options, '').map(range);
+  }
+  if (config.chunkSize) {
+    return section => chunkText(section, config.chunkSize!, '').map(range);
+  }
+  return undefined;
+}
+
+/**
+ * Chunk a single-document dataset's text as its config asks. Load records the
+ * resulting ranges in state (see chunkRanges) for annotate.
+ *
+ * @param displayName - Chunk titles are "<displayName> - Part N", or "<displayName> - <section>"
+ */
+export function chunkDocument(text: string, config: DocumentChunkingConfig, displayName: string): ChunkInfo[] {
+  if (config.chunkStrategy && !CHUNK_STRATEGIES.includes(config.chunkStrategy)) {
+    throw new Error(`Unknown chunkStrategy "${config.chunkStrategy}". Strategies: ${CHUNK_STRATEGIES.join(', ')}`);
+  }
+  const titlePrefix = `${displayName} - Part`;
+  let chunks: ChunkInfo[];
+  if (config.chunkStrategy === 'markdown') {
+    chunks = chunkByHeadings(text, { headingDepth: config.headingDepth, splitSection: sectionSplitter(config) }, displayName);
+  } else if (config.chunkStrategy === 'legal-opinion') {
+    chunks = chunkByOpinion(text, sectionSplitter(config), displayName);
+  } else if (config.targetTokens) {
+    chunks = chunkByTokens(text, { targetTokens: config.targetTokens, maxTokens: config.maxTokens }, titlePrefix);
+  } else if (config.useSmartChunking) {
+    chunks = chunkText(text, config.chunkSize!, titlePrefix);
+  } else {
+    chunks = chunkBySize(text, config.chunkSize!, titlePrefix);
+  }
+  return addOverlap(text, chunks, { characters: config.overlapChars, paragraphs: config.overlapParagraphs });
+}
+
+/**
+ * One-line description of chunkDocument's strategy, e.g. "paragraphs, ~4000 chars"
+ */
+export function describeChunking(config: DocumentChunkingConfig): string {
+  let base: string;
+  // Structural strategies split oversized sections at this budget
+  const budget = config.targetTokens ? `~${config.targetTokens} tokens` : config.chunkSize ? `~${config.chunkSize} chars` : undefined;
+  const split = budget ? `, split at ${budget}` : '';
+  if (config.chunkStrategy === 'markdown') {
+    base = `markdown headings to level ${config.headingDepth ?? 3}${split}`;
+  } else if (config.chunkStrategy === 'legal-opinion') {
+    base = `opinion sections and Parts${split}`;
+  } else if (config.targetTokens) {
+    base = `paragraphs, ~${config.targetTokens} tokens (max ${config.maxTokens ?? Math.round(config.targetTokens * 1.5)})`;
+  } else {
+    base = `${config.useSmartChunking ? 'paragraphs' : 'fixed size'}, ~${config.chunkSize} chars`;
+  }
+  if (config.overlapParagraphs) {
+    return `${base}, ${config.overlapParagraphs} paragraph${config.overlapParagraphs === 1 ? '' : 's'} overlap`;
+  }
+  return config.overlapChars ? `${base}, ${config.overlapChars} chars overlap` : base;
+}
@@ -3,17 +3,56 @@ import { config } from 'dotenv';
 config();
 
 // Now safe to import modules that read environment variables
-import { Command } from 'commander';
-import { COMMANDS, type CommandName } from './commands/index.js';
+import { Command, InvalidArgumentError } from 'commander';
+import { COMMANDS, type CommandName, type CommandOptions } from './commands/index.js';
 import { interactiveCommand } from './commands/interactive.js';
-import { DATASETS } from './datasets/loader.js';
+import { listCommand } from './commands/list.js';
+import { statusCommand } from './commands/status.js';
+import { lintCommand } from './commands/lint.js';
+import { importCommand, type ImportOptions } from './commands/import.js';
+import { batchCommand, isGlob } from './commands/batch.js';
+import { DATASETS, initDatasets, scenarioRoots, applyOverrides } from './datasets/loader.js';
+import { setSilent, printError } from './display.js';
+import { selectProfile } from './profiles.js';
+import { closeLogger, withLogContext } from './logger.js';
 
 const program = new Command();
 
+function parsePositiveInt(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
+
+// Flush the log file first: process.exit() drops entries still being written
+async function exit(code: number): Promise<never> {
+  await closeLogger();
+  process.exit(code);
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
 program
   .name('demo')
   .description('Semiont demo CLI for legal document processing')
-  .version('0.1.0');
+  .version('0.1.0')
+  .option('--profile <name>', 'Backend profile from ~/.semiont-agents/profiles.yaml (default: $SEMIONT_PROFILE or the file\'s default)')
+  .option('--scenarios <dirs>', 'Extra scenario directories, ":"-separated (searched before $SEMIONT_SCENARIOS_PATH and structured-knowledge)');
+
+// Select the backend profile and load datasets before any command runs; state files are kept per profile
+program.hook('preAction', async () => {
+  try {
+    const { profile, scenarios } = program.opts<{ profile?: string; scenarios?: string }>();
+    await initDatasets(scenarioRoots(scenarios), selectProfile(profile));
+  } catch (error) {
+    printError(error as Error);
+    await exit(1);
+  }
+});
 
 // Interactive mode
 program
@@ -21,34 +60,108 @@ program
   .description('Launch interactive terminal UI')
   .action(interactiveCommand);
 
-// Dataset commands
+// Dataset discovery and progress
+program
+  .command('list')
+  .description('List available datasets and their settings')
+  .action(listCommand);
+
+program
+  .command('status')
+  .argument('[dataset]', 'Dataset name (default: all datasets)')
+  .option('--remote', 'Check that recorded resources still exist in the backend')
+  .description('Show cache, last runs and recorded resources for datasets')
+  .action((datasetArg: string | undefined, options: { remote?: boolean }) =>
+    withLogContext({ command: 'status' }, () => statusCommand(datasetArg, options)).catch(() => exit(1)));
+
+program
+  .command('lint')
+  .argument('[dataset]', 'Dataset name (default: every scenario config)')
+  .description('Validate scenario config.yaml files (schema, phase references, templates)')
+  .action((datasetArg: string | undefined) =>
+    withLogContext({ command: 'lint' }, () => lintCommand(datasetArg)).catch(() => exit(1)));
+
 program
-  .argument('[dataset]', 'Dataset name (dynamically discovered from config/)')
+  .command('import')
+  .argument('<bundle-dir>', 'Bundle directory written by "demo <dataset> export"')
+  .option('--dataset <name>', 'Dataset whose state records the import (default: the bundle\'s dataset)')
+  .option('--concurrency <n>', 'Maximum requests in flight (default: dataset "concurrency" or 1)', parsePositiveInt)
+  .description('Recreate an exported bundle\'s resources and annotations in the current backend')
+  .action((bundleDir: string, options: ImportOptions) =>
+    withLogContext({ command: 'import' }, () => importCommand(bundleDir, options)).catch(() => exit(1)));
+
+// Dataset commands (a glob, --all or --tag runs the command on several datasets)
+program
+  .argument('[dataset]', 'Dataset name or glob, e.g. "legal-*" (dynamically discovered from config/)')
   .argument('[command]', `Command: ${Object.keys(COMMANDS).join(', ')}`)
-  .action((datasetArg?: string, commandArg?: string) => {
-    if (!datasetArg || !commandArg) {
+  .option('--dry-run', 'Show what the command would do without changing the backend')
+  .option('-y, --yes', 'Skip confirmation prompts')
+  .option('-o, --output <dir>', 'load --dry-run: write planned uploads here (default: $DATA_DIR/dry-run/<dataset>); export: bundle directory (default: $DATA_DIR/export/<dataset>)')
+  .option('--from <stage>', 'run: restart the pipeline at this stage')
+  .option('--to <stage>', 'run: stop the pipeline after this stage')
+  .option('--json', 'Print a single JSON result document instead of the usual output (download, load, annotate, validate, export)')
+  .option('--incremental', 'load: upload only new or changed items and archive the resources they replace')
+  .option('--concurrency <n>', 'load: maximum requests in flight (default: dataset "concurrency" or 1)', parsePositiveInt)
+  .option('--set <key=value>', 'Override a config.yaml field for this run (repeatable, e.g. --set chunkSize=2000)', collect)
+  .option('--all', 'Run the command on every dataset (demo --all <command>)')
+  .option('--tag <tag>', 'Run the command on datasets with this tag (demo --tag <tag> <command>)')
+  .option('--parallel <n>', 'Batch runs: datasets processed at once (default: 1)', parsePositiveInt)
+  .action(async (datasetArg: string | undefined, commandArg: string | undefined, options: CommandOptions & { all?: boolean; tag?: string }) => {
+    // --all and --tag select the datasets, so the only argument is the command
+    const selectsByFlag = Boolean(options.all || options.tag);
+    if (selectsByFlag && commandArg) {
+      console.error('--all and --tag select the datasets; pass only the command (e.g. demo --all validate)');
+      return exit(1);
+    }
+    const datasetPattern = selectsByFlag ? undefined : datasetArg;
+    const commandName = selectsByFlag ? datasetArg : commandArg;
+    const batch = selectsByFlag || (datasetPattern !== undefined && isGlob(datasetPattern));
+
+    if (!commandName || (!batch && !datasetPattern)) {
       program.help();
       return;
     }
 
     // Runtime validation for dynamic datasets
-    if (!(datasetArg in DATASETS)) {
-      console.error(`Unknown dataset: ${datasetArg}`);
+    if (!batch && !(datasetPattern! in DATASETS)) {
+      console.error(`Unknown dataset: ${datasetPattern}`);
       console.error(`Available datasets: ${Object.keys(DATASETS).join(', ')}`);
-      process.exit(1);
+      return exit(1);
     }
 
     // Compile-time type-safe validation for static commands
-    if (!(commandArg in COMMANDS)) {
-      console.error(`Unknown command: ${commandArg}`);
+    if (!(commandName in COMMANDS)) {
+      console.error(`Unknown command: ${commandName}`);
       console.error(`Available commands: ${Object.keys(COMMANDS).join(', ')}`);
-      process.exit(1);
+      return exit(1);
+    }
+
+    const command = commandName as CommandName;  // Type-safe after validation
+
+    if (batch) {
+      return batchCommand({ pattern: datasetPattern, all: options.all, tag: options.tag }, command, options)
+        .catch(() => exit(1));
     }
+    const datasetName = datasetPattern!;
 
-    const command = commandArg as CommandName;  // Type-safe after validation
+    // Per-invocation config overrides, validated against the dataset's handler
+    if (options.set?.length) {
+      try {
+        await applyOverrides(datasetName, options.set);
+      } catch (error) {
+        printError(error as Error);
+        return exit(1);
+      }
+    }
+
+    // JSON mode: stdout carries only the result document (errors still go to stderr)
+    if (options.json) {
+      setSilent(true);
+    }
 
     // Dispatch to type-safe command
-    return COMMANDS[command](datasetArg).catch(() => process.exit(1));
+    return withLogContext({ dataset: datasetName, command }, () => COMMANDS[command](datasetName, options))
+      .catch(() => exit(1));
   });
 
-program.parse();
+await program.parseAsync();
@@ -1,17 +1,19 @@
-import { existsSync, readFileSync } from 'node:fs';
-import { SemiontApiClient } from '@semiont/api-client';
-import type { ResourceId } from '@semiont/core';
-import { baseUrl, EventBus } from '@semiont/core';
-import type { DatasetConfigWithPaths } from '../types.js';
+import type { SemiontApiClient } from '@semiont/api-client';
+import type { AnnotationId, ResourceId } from '@semiont/core';
+import { EventBus } from '@semiont/core';
 import type { HighlightPhaseConfig } from '../handlers/types.js';
 import { DATASETS } from '../datasets/loader.js';
-import { chunkBySize, chunkText, type ChunkInfo } from '../chunking.js';
-import { authenticate } from '../auth.js';
+import { chunksFromRanges, ownedRange, type ChunkInfo } from '../chunking.js';
+import { resolveBackend, connectBackend } from '../profiles.js';
+import { apiCall, printRetrySummary } from '../api-call.js';
 import { showDocumentHistory } from '../history.js';
 import { detectCitations } from '../legal-citations.js';
-import type { TableOfContentsReference } from '../resources.js';
+import { readState, writeState, recordRun, completeRun, type AnnotationRef, type DemoState } from '../state.js';
+import { printReport, startTimer } from '../report.js';
+import type { CommandOptions } from './index.js';
 import {
   printMainHeader,
+  printLine,
   printSectionHeader,
   printInfo,
   printSuccess,
@@ -21,29 +23,6 @@ import {
   printError,
 } from '../display.js';
 
-interface DemoState {
-  dataset: string;
-  tocId?: ResourceId;
-  chunkIds?: ResourceId[];
-  references?: TableOfContentsReference[];
-  formattedText: string;
-  phaseResourceIds?: Record<string, ResourceId[]>;
-}
-
-function loadState(dataset: DatasetConfigWithPaths): DemoState {
-  if (!existsSync(dataset.stateFile)) {
-    throw new Error(`State file ${dataset.stateFile} not found. Run 'load' command first.`);
-  }
-  const data = readFileSync(dataset.stateFile, 'utf-8');
-  const state: DemoState = JSON.parse(data);
-
-  if (state.dataset !== dataset.name) {
-    throw new Error(`State file is for dataset '${state.dataset}', but you requested '${dataset.name}'`);
-  }
-
-  return state;
-}
-
 /**
  * Run annotateHighlights on a single resource via SSE, returning the number of highlights created.
  */
@@ -93,8 +72,9 @@ async function executeHighlightPhases(
   state: DemoState,
   client: SemiontApiClient,
   auth: import('@semiont/core').AccessToken,
-): Promise<number> {
+): Promise<{ totalAnnotated: number; phases: Record<string, { highlighted: number; failed: number }> }> {
   let totalAnnotated = 0;
+  const phases: Record<string, { highlighted: number; failed: number }> = {};
   let stepNumber = 2;
 
   for (const phase of highlightPhases) {
@@ -127,47 +107,37 @@ async function executeHighlightPhases(
     }
 
     printSuccess(`Highlighted ${succeeded}/${resourceIds.length} resources (${failed} failed)`);
+    phases[phase.name] = { highlighted: succeeded, failed };
     totalAnnotated += succeeded;
   }
 
-  return totalAnnotated;
+  return { totalAnnotated, phases };
 }
 
-export async function annotateCommand(datasetName: string): Promise<void> {
+export async function annotateCommand(datasetName: string, options: CommandOptions = {}): Promise<void> {
   const dataset = DATASETS[datasetName];
   if (!dataset) {
     throw new Error(`Unknown dataset: ${datasetName}. Available: ${Object.keys(DATASETS).join(', ')}`);
   }
 
   printMainHeader(dataset.emoji || '📄', `${dataset.displayName} Demo - Annotate`);
+  const startedAt = new Date().toISOString();
+  const timer = startTimer();
+  // Set once citations are being created; records them in state so teardown can find them
+  let saveAnnotations: (() => void) | undefined;
 
   try {
-    // Read environment variables - NO DEFAULTS, FAIL LOUDLY
-    const SEMIONT_URL = process.env.SEMIONT_URL;
-    const AUTH_EMAIL = process.env.AUTH_EMAIL;
-    const AUTH_PASSWORD = process.env.AUTH_PASSWORD;
-    const ACCESS_TOKEN = process.env.ACCESS_TOKEN;
-
-    // Validate required environment variables
-    if (!SEMIONT_URL) {
-      throw new Error('SEMIONT_URL environment variable is required');
-    }
-
-    const client = new SemiontApiClient({
-      baseUrl: baseUrl(SEMIONT_URL),
-    });
+    // Resolve the backend (active profile or SEMIONT_URL/AUTH_*) - NO DEFAULTS, FAIL LOUDLY
+    const backend = resolveBackend();
 
     // Pass 0: Authentication
     printSectionHeader('🔐', 0, 'Authentication');
-    const auth = await authenticate(client, {
-      email: AUTH_EMAIL,
-      password: AUTH_PASSWORD,
-      accessToken: ACCESS_TOKEN,
-    });
+    const { client, auth } = await connectBackend(backend);
+    timer.lap('authentication');
 
     // Load state from load command
     printSectionHeader('📂', 1, 'Load State');
-    const state = loadState(dataset);
+    const state = readState(dataset);
 
     // Branch: Highlight phases (AI-driven) vs Citation detection (legacy)
     if (dataset.highlightPhases && dataset.highlightPhases.length > 0) {
@@ -178,15 +148,27 @@ export async function annotateCommand(datasetName: string): Promise<void> {
 
       printSuccess(`Loaded state with ${Object.keys(state.phaseResourceIds).length} phases`);
 
-      const totalAnnotated = await executeHighlightPhases(
+      const { totalAnnotated, phases } = await executeHighlightPhases(
         dataset.highlightPhases, state, client, auth,
       );
+      timer.lap('highlight');
 
       // Summary
-      console.log();
-      console.log('📊 Summary:');
-      console.log(`   Resources highlighted: ${totalAnnotated}`);
+      printLine();
+      printLine('📊 Summary:');
+      printLine(`   Resources highlighted: ${totalAnnotated}`);
+
+      const run = recordRun(dataset, {
+        command: 'annotate',
+        status: 'success',
+        startedAt,
+        counts: { highlighted: totalAnnotated },
+      });
+      if (options.json) {
+        printReport(dataset.name, run, timer, { phases });
+      }
 
+      printRetrySummary();
       printCompletion();
       return;
     }
@@ -194,6 +176,9 @@ export async function annotateCommand(datasetName: string): Promise<void> {
     // Legacy: Citation detection
     if (!dataset.detectCitations) {
       printInfo('This dataset does not support the annotate command');
+      if (options.json) {
+        printReport(dataset.name, completeRun({ command: 'annotate', status: 'success', startedAt }), timer);
+      }
       printCompletion();
       return;
     }
@@ -204,23 +189,42 @@ export async function annotateCommand(datasetName: string): Promise<void> {
 
     printSuccess(`Loaded ${state.chunkIds.length} chunk IDs`);
 
-    // Re-chunk the text to get chunk content for annotation detection
+    // Rebuild the uploaded chunks from the ranges load recorded; re-chunking could cut
+    // them differently if the chunker or the chunking config has changed since
     let chunks: ChunkInfo[];
-    if (dataset.shouldChunk) {
-      if (dataset.useSmartChunking) {
-        chunks = chunkText(state.formattedText, dataset.chunkSize!, `${dataset.displayName} - Part`);
-      } else {
-        chunks = chunkBySize(state.formattedText, dataset.chunkSize!, `${dataset.displayName} - Part`);
-      }
+    if (state.chunkRanges) {
+      chunks = chunksFromRanges(state.formattedText, state.chunkRanges);
+    } else if (dataset.shouldChunk) {
+      throw new Error(`State for ${dataset.name} does not record where its chunks were cut (it was written by an older load). Run "demo ${datasetName} teardown" and load again before annotating.`);
     } else {
       chunks = [{
         title: dataset.displayName,
         content: state.formattedText,
         partNumber: 1,
+        start: 0,
+        end: state.formattedText.length,
       }];
     }
+    if (chunks.length !== state.chunkIds.length) {
+      throw new Error(`State for ${dataset.name} records ${state.chunkIds.length} chunk IDs but ${chunks.length} chunks. Run "demo ${datasetName} teardown" and load again before annotating.`);
+    }
 
-    let totalAnnotations = 0;
+    const annotations: AnnotationRef[] = [];
+    let saved = 0;
+    saveAnnotations = () => {
+      if (annotations.length > saved) {
+        writeState(dataset, { ...state, annotations: [...(state.annotations ?? []), ...annotations] });
+        saved = annotations.length;
+      }
+    };
+
+    // Citations an earlier run recorded on a chunk are not created again. Detection is
+    // deterministic and annotations are recorded in text order, so they are the first ones found.
+    const recorded = new Map<ResourceId, number>();
+    for (const ref of state.annotations ?? []) {
+      recorded.set(ref.resourceId, (recorded.get(ref.resourceId) ?? 0) + 1);
+    }
+    let existing = 0;
 
     // Pass 2: Detect Legal Citations
     printSectionHeader('⚖️ ', 2, 'Detect Legal Citations');
@@ -231,13 +235,22 @@ export async function annotateCommand(datasetName: string): Promise<void> {
 
       printBatchProgress(i + 1, chunks.length, `Scanning "${chunk.title}"...`);
 
-      const citations = await detectCitations(chunk.content);
+      // Citations starting in the context repeated from a neighbour are that neighbour's
+      const owned = ownedRange(chunk);
+      const found = (await detectCitations(chunk.content))
+        .filter(citation => citation.start >= owned.start && citation.start < owned.end);
+      const citations = found.slice(recorded.get(chunkId) ?? 0);
+      existing += found.length - citations.length;
 
-      if (citations.length > 0) {
+      if (found.length > citations.length) {
+        printInfo(`Found ${found.length} citation(s), ${found.length - citations.length} already annotated`, 7);
+      } else if (citations.length > 0) {
         printInfo(`Found ${citations.length} citation(s)`, 7);
+      }
 
+      if (citations.length > 0) {
         for (const citation of citations) {
-          await client.createAnnotation(chunkId, {
+          const response = await apiCall('createAnnotation', () => client.createAnnotation(chunkId, {
             motivation: 'linking',
             target: {
               source: chunkId,
@@ -258,27 +271,56 @@ export async function annotateCommand(datasetName: string): Promise<void> {
               value: 'LegalCitation',
               purpose: 'tagging',
             }],
-          }, { auth });
+          }, { auth }));
 
-          totalAnnotations++;
+          annotations.push({ resourceId: chunkId, annotationId: response.annotationId as AnnotationId });
         }
+        // Record created annotations after each chunk so later commands (and the terminal UI) can find them
+        saveAnnotations();
       }
     }
 
-    printSuccess(`Detected and tagged ${totalAnnotations} legal citations across ${chunks.length} chunks`);
+    printSuccess(`Detected and tagged ${annotations.length} legal citations across ${chunks.length} chunks`);
+    if (existing > 0) {
+      printInfo(`${existing} citations were already annotated by an earlier run`);
+    }
+    timer.lap('citations');
 
     // Pass 3: Show Document History
     printSectionHeader('📜', 3, 'Document History');
     await showDocumentHistory(state.chunkIds[0], client, auth);
+    timer.lap('history');
 
     // Pass 4: Print Summary
-    console.log();
-    console.log('📊 Summary:');
-    console.log(`   Citations detected: ${totalAnnotations}`);
+    printLine();
+    printLine('📊 Summary:');
+    printLine(`   Citations detected: ${annotations.length}`);
+    if (existing > 0) {
+      printLine(`   Already annotated: ${existing}`);
+    }
 
+    const run = recordRun(dataset, {
+      command: 'annotate',
+      status: 'success',
+      startedAt,
+      counts: { citations: annotations.length, existing, chunks: chunks.length },
+      resourceIds: state.chunkIds,
+    });
+    if (options.json) {
+      printReport(dataset.name, run, timer);
+    }
+
+    printRetrySummary();
     printCompletion();
   } catch (error) {
+    // Keep the annotations created before the failure, so teardown can remove them
+    saveAnnotations?.();
+    printRetrySummary();
     printError(error as Error);
+    const run = recordRun(dataset, { command: 'annotate', status: 'failed', startedAt, error: (error as Error).message });
+    if (options.json) {
+      printReport(dataset.name, run, timer);
+    }
     throw error;
   }
 }
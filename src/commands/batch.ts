@@ -0,0 +1,207 @@
+import type { DatasetConfigWithPaths } from '../types.js';
+import { COMMANDS, type CommandFunction, type CommandName, type CommandOptions } from './index.js';
+import { DATASETS, applyOverrides } from '../datasets/loader.js';
+import { readStateIfExists, lastRun } from '../state.js';
+import { mapWithConcurrency } from '../concurrency.js';
+import {
+  printMainHeader,
+  printSectionHeader,
+  printLine,
+  printInfo,
+  printSuccess,
+  printWarning,
+  printError,
+  withSilence,
+} from '../display.js';
+import { withLogContext } from '../logger.js';
+import { withRetryStats } from '../api-call.js';
+
+/**
+ * Which datasets a batch runs on: a name glob, --all, or --tag
+ */
+export interface BatchSelection {
+  pattern?: string;
+  all?: boolean;
+  tag?: string;
+}
+
+interface BatchResult {
+  dataset: string;
+  status: 'success' | 'failed';
+  durationMs: number;
+  details: string; // Counts recorded by the run, or the error message
+}
+
+/**
+ * Whether a dataset argument is a glob pattern rather than a dataset name
+ */
+export function isGlob(value: string): boolean {
+  return /[*?[]/.test(value);
+}
+
+/**
+ * Convert a glob ("legal-*", "case_?", "[ab]*") to an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const set = pattern.slice(i + 1, end);
+        source += `[${set.startsWith('!') ? `^${set.slice(1)}` : set}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\\]]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Datasets matched by a selection, sorted by name
+ */
+export function selectDatasets(selection: BatchSelection): DatasetConfigWithPaths[] {
+  const all = Object.values(DATASETS).sort((a, b) => a.name.localeCompare(b.name));
+  if (selection.all) {
+    return all;
+  }
+  if (selection.tag) {
+    return all.filter(dataset => dataset.tags?.includes(selection.tag!));
+  }
+  const pattern = globToRegExp(selection.pattern ?? '');
+  return all.filter(dataset => pattern.test(dataset.name));
+}
+
+function describeSelection(selection: BatchSelection): string {
+  if (selection.all) return '--all';
+  if (selection.tag) return `--tag ${selection.tag}`;
+  return `"${selection.pattern}"`;
+}
+
+/**
+ * Counts the command recorded for a dataset, as "key: value" pairs
+ */
+function describeCounts(dataset: DatasetConfigWithPaths, command: CommandName): string {
+  const run = lastRun(readStateIfExists(dataset), command);
+  if (!run) return '';
+  return Object.entries(run.counts).map(([k, v]) => `${k}: ${v}`).join(', ');
+}
+
+function printSummary(command: CommandName, results: BatchResult[]): void {
+  const rows = results.map(r => [
+    r.dataset,
+    r.status === 'success' ? '✓ ok' : '✗ failed',
+    `${(r.durationMs / 1000).toFixed(1)}s`,
+    r.details,
+  ]);
+  const header = ['DATASET', 'RESULT', 'TIME', 'DETAILS'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const format = (cells: string[]) => '   ' + cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+
+  printSectionHeader('📊', results.length + 1, `Summary: ${command}`);
+  printLine(format(header));
+  rows.forEach(row => printLine(format(row)));
+  printLine();
+
+  const failed = results.filter(r => r.status === 'failed').length;
+  if (failed === 0) {
+    printSuccess(`${results.length}/${results.length} datasets succeeded`);
+  } else {
+    printWarning(`${failed}/${results.length} datasets failed`);
+  }
+}
+
+/**
+ * Run one command across several datasets. Datasets run one at a time, or up
+ * to --parallel at once with their own output silenced; each dataset keeps its
+ * own retry tallies, and every dataset shares one authenticated session (see
+ * connectBackend). Fails if any dataset failed.
+ */
+export async function batchCommand(
+  selection: BatchSelection,
+  command: CommandName,
+  options: CommandOptions = {},
+): Promise<void> {
+  const datasets = selectDatasets(selection);
+  const parallel = options.parallel ?? 1;
+
+  printMainHeader('📦', `Batch ${command} - ${datasets.length} dataset${datasets.length === 1 ? '' : 's'} (${describeSelection(selection)})`);
+
+  try {
+    if (datasets.length === 0) {
+      throw new Error(`No datasets match ${describeSelection(selection)}. Run "demo list" to see the available datasets.`);
+    }
+    // One document per dataset would not form a single JSON document on stdout
+    if (options.json) {
+      throw new Error('Batch runs do not support --json. Run each dataset with --json individually.');
+    }
+    // Concurrent confirmation prompts would fight over stdin
+    if (command === 'teardown' && parallel > 1 && !options.dryRun && !options.yes) {
+      throw new Error('Batch teardown with --parallel needs --yes');
+    }
+    if (options.set?.length) {
+      for (const dataset of datasets) {
+        await applyOverrides(dataset.name, options.set);
+      }
+    }
+  } catch (error) {
+    printError(error as Error);
+    throw error;
+  }
+
+  printInfo(`Datasets: ${datasets.map(d => d.name).join(', ')}`);
+  if (parallel > 1) {
+    printInfo(`Running up to ${parallel} datasets at once; per-dataset output is hidden until the summary`);
+  }
+
+  const quiet = parallel > 1;
+  const commandFn: CommandFunction = COMMANDS[command];
+  const results = await mapWithConcurrency(datasets, parallel, async (dataset, i): Promise<BatchResult> => {
+    if (quiet) {
+      printInfo(`▶️  ${dataset.name}: ${command} started`);
+    } else {
+      printSectionHeader('▶️ ', i + 1, `${dataset.name}: ${command}`);
+    }
+
+    const started = Date.now();
+    try {
+      // Log entries name the dataset even while its console output is hidden; progress lines
+      // printed here, outside the dataset's own scope, stay visible
+      await withRetryStats(() => withSilence(quiet, () =>
+        withLogContext({ dataset: dataset.name, command }, () => commandFn(dataset.name, options))));
+      const result: BatchResult = {
+        dataset: dataset.name,
+        status: 'success',
+        durationMs: Date.now() - started,
+        details: describeCounts(DATASETS[dataset.name], command),
+      };
+      if (quiet) printInfo(`✅ ${dataset.name}: ${command} finished`);
+      return result;
+    } catch (error) {
+      // The command has already printed its error
+      if (quiet) printInfo(`❌ ${dataset.name}: ${command} failed`);
+      return {
+        dataset: dataset.name,
+        status: 'failed',
+        durationMs: Date.now() - started,
+        details: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+
+  printSummary(command, results);
+
+  const failed = results.filter(r => r.status === 'failed');
+  if (failed.length > 0) {
+    throw new Error(`${command} failed for ${failed.map(r => r.dataset).join(', ')}`);
+  }
+}
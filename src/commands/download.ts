@@ -1,7 +1,11 @@
 import { existsSync } from 'node:fs';
 import { DATASETS } from '../datasets/loader.js';
+import type { CommandOptions } from './index.js';
+import { recordRun, completeRun } from '../state.js';
+import { printReport, startTimer } from '../report.js';
 import {
   printMainHeader,
+  printLine,
   printSectionHeader,
   printInfo,
   printSuccess,
@@ -9,19 +13,24 @@ import {
   printError,
 } from '../display.js';
 
-export async function downloadCommand(datasetName: string): Promise<void> {
+export async function downloadCommand(datasetName: string, options: CommandOptions = {}): Promise<void> {
   const dataset = DATASETS[datasetName];
   if (!dataset) {
     throw new Error(`Unknown dataset: ${datasetName}. Available: ${Object.keys(DATASETS).join(', ')}`);
   }
 
   printMainHeader(dataset.emoji, `${dataset.displayName} Demo - Download`);
+  const startedAt = new Date().toISOString();
+  const timer = startTimer();
 
   try {
     // Check if already cached
     if (existsSync(dataset.cacheFile)) {
       printInfo(`Cache file already exists: ${dataset.cacheFile}`);
-      console.log('💡 Use --force to re-download, or run the load command to proceed.');
+      printLine('💡 Use --force to re-download, or run the load command to proceed.');
+      if (options.json) {
+        printReport(dataset.name, completeRun({ command: 'download', status: 'success', startedAt, counts: { downloaded: 0 } }), timer);
+      }
       return;
     }
 
@@ -29,6 +38,9 @@ export async function downloadCommand(datasetName: string): Promise<void> {
     if (!dataset.downloadContent) {
       printInfo('This dataset is already local, no download needed.');
       printSuccess(`Using: ${dataset.cacheFile}`);
+      if (options.json) {
+        printReport(dataset.name, completeRun({ command: 'download', status: 'success', startedAt, counts: { downloaded: 0 } }), timer);
+      }
       printCompletion();
       return;
     }
@@ -40,11 +52,20 @@ export async function downloadCommand(datasetName: string): Promise<void> {
     // Download content
     printSectionHeader('📥', 1, 'Download Content');
     await dataset.downloadContent();
+    timer.lap('download');
+    const run = recordRun(dataset, { command: 'download', status: 'success', startedAt, counts: { downloaded: 1 } });
+    if (options.json) {
+      printReport(dataset.name, run, timer);
+    }
 
     printCompletion();
-    console.log(`\n💡 Next step: Run "demo ${datasetName} load" to process and upload\n`);
+    printLine(`\n💡 Next step: Run "demo ${datasetName} load" to process and upload\n`);
   } catch (error) {
     printError(error as Error);
+    const run = recordRun(dataset, { command: 'download', status: 'failed', startedAt, error: (error as Error).message });
+    if (options.json) {
+      printReport(dataset.name, run, timer);
+    }
     throw error;
   }
 }
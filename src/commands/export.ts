@@ -0,0 +1,184 @@
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import type { SemiontApiClient } from '@semiont/api-client';
+import type { AccessToken, ResourceId } from '@semiont/core';
+import { DATASETS } from '../datasets/loader.js';
+import { resolveBackend, connectBackend } from '../profiles.js';
+import { apiCall, printRetrySummary } from '../api-call.js';
+import { mapWithConcurrency, resolveConcurrency } from '../concurrency.js';
+import { readState, recordRun, collectResourceIds } from '../state.js';
+import { contentFile, prepareBundleDir, writeBundle, toWebAnnotation, BUNDLE_VERSION, type BackendAnnotation, type BundleResource, type WebAnnotation } from '../bundle.js';
+import { printReport, startTimer } from '../report.js';
+import type { CommandOptions } from './index.js';
+import {
+  printMainHeader,
+  printLine,
+  printSectionHeader,
+  printInfo,
+  printSuccess,
+  printWarning,
+  printBatchProgress,
+  printFilesystemPath,
+  printCompletion,
+  printError,
+} from '../display.js';
+
+interface ExportedResource {
+  resource: BundleResource;
+  annotations: WebAnnotation[];
+  dropped: number; // Selectors and bodies the bundle format cannot hold
+}
+
+/**
+ * Fetch one resource's metadata, content and annotations, writing the content into the bundle
+ */
+async function exportResource(
+  resourceId: ResourceId,
+  index: number,
+  bundleDir: string,
+  client: SemiontApiClient,
+  auth: AccessToken,
+): Promise<ExportedResource> {
+  const { resource } = await apiCall('getResource', () => client.getResource(resourceId, { auth }));
+  const { data, contentType } = await apiCall('getResourceRepresentation', () => client.getResourceRepresentation(resourceId, { auth }));
+  const { annotations } = await apiCall('getResourceAnnotations', () => client.getResourceAnnotations(resourceId, { auth }));
+
+  const buffer = Buffer.from(data);
+  const name = resource.name || resourceId;
+  const mediaType: string = contentType || 'application/octet-stream';
+  const file = contentFile(index, name, mediaType);
+  writeFileSync(join(bundleDir, file), buffer);
+
+  // The descriptor holds one representation or a list of them
+  const language = [resource.representations].flat()[0]?.language;
+
+  let dropped = 0;
+  const converted = annotations.map((raw: BackendAnnotation) => {
+    const result = toWebAnnotation(raw, resourceId);
+    dropped += result.dropped;
+    return result.annotation;
+  });
+
+  return {
+    resource: {
+      id: resourceId,
+      name,
+      mediaType,
+      entityTypes: resource.entityTypes ?? [],
+      ...(language && { language }),
+      file,
+      sha256: createHash('sha256').update(buffer).digest('hex'),
+    },
+    // Sorted so repeated exports of the same data diff cleanly
+    annotations: converted.sort((a: WebAnnotation, b: WebAnnotation) => a.id.localeCompare(b.id)),
+    dropped,
+  };
+}
+
+export async function exportCommand(datasetName: string, options: CommandOptions = {}): Promise<void> {
+  const dataset = DATASETS[datasetName];
+  if (!dataset) {
+    throw new Error(`Unknown dataset: ${datasetName}. Available: ${Object.keys(DATASETS).join(', ')}`);
+  }
+
+  printMainHeader(dataset.emoji || '📄', `${dataset.displayName} Demo - Export`);
+  const startedAt = new Date().toISOString();
+  const timer = startTimer();
+
+  try {
+    // Nothing to preview: export only reads from the backend
+    if (options.dryRun) {
+      throw new Error('export does not support --dry-run (it does not change the backend)');
+    }
+
+    // Resolve the backend (active profile or SEMIONT_URL/AUTH_*) - NO DEFAULTS, FAIL LOUDLY
+    const backend = resolveBackend();
+
+    // Pass 0: Authentication
+    printSectionHeader('🔐', 0, 'Authentication');
+    const { client, auth } = await connectBackend(backend);
+    timer.lap('authentication');
+
+    // Pass 1: Load state
+    printSectionHeader('📂', 1, 'Load State');
+    const { version: _version, dataset: _dataset, runs: _runs, ...resources } = readState(dataset);
+    const resourceIds = collectResourceIds(resources);
+    if (resourceIds.length === 0) {
+      throw new Error(`State records no resources. Run "demo ${datasetName} load" first.`);
+    }
+    printSuccess(`Found ${resourceIds.length} resources to export`);
+
+    const bundleDir = options.output ?? join(process.env.DATA_DIR || 'data', 'export', dataset.name);
+    prepareBundleDir(bundleDir);
+    printFilesystemPath('Bundle', bundleDir, 3);
+
+    // Pass 2: Fetch resources and their annotations
+    printSectionHeader('📥', 2, 'Fetch Resources and Annotations');
+    const concurrency = resolveConcurrency(options.concurrency, dataset.concurrency);
+    const failures: { resourceId: ResourceId; error: string }[] = [];
+    const exported = await mapWithConcurrency(resourceIds, concurrency, async (resourceId, i) => {
+      printBatchProgress(i + 1, resourceIds.length, `Exporting ${resourceId}...`);
+      try {
+        return await exportResource(resourceId, i, bundleDir, client, auth);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        printWarning(`Failed: ${resourceId}: ${message}`, 7);
+        failures.push({ resourceId, error: message });
+        return undefined;
+      }
+    });
+    timer.lap('fetch');
+
+    const succeeded = exported.filter((e): e is ExportedResource => e !== undefined);
+    const annotations = succeeded.flatMap(e => e.annotations);
+    const dropped = succeeded.reduce((sum, e) => sum + e.dropped, 0);
+    if (dropped > 0) {
+      printWarning(`Skipped ${dropped} selectors/bodies other than TextPosition/TextQuote selectors and SpecificResource/TextualBody bodies`);
+    }
+
+    // Pass 3: Write the bundle
+    printSectionHeader('📦', 3, 'Write Bundle');
+    writeBundle(bundleDir, {
+      version: BUNDLE_VERSION,
+      dataset: dataset.name,
+      displayName: dataset.displayName,
+      exportedAt: new Date().toISOString(),
+      backend: backend.url,
+      resources: succeeded.map(e => e.resource),
+      state: resources,
+    }, annotations);
+    timer.lap('write');
+
+    printSuccess(`Exported ${succeeded.length}/${resourceIds.length} resources and ${annotations.length} annotations`);
+    printFilesystemPath('Manifest', join(bundleDir, 'manifest.json'), 3);
+    printFilesystemPath('Annotations', join(bundleDir, 'annotations.jsonld'), 3);
+    if (failures.length > 0) {
+      printLine();
+      printInfo(`Check the missing resources with: demo status ${datasetName} --remote`);
+      throw new Error(`${failures.length} of ${resourceIds.length} resources failed to export and are missing from the bundle`);
+    }
+
+    const run = recordRun(dataset, {
+      command: 'export',
+      status: 'success',
+      startedAt,
+      counts: { resources: succeeded.length, annotations: annotations.length },
+      resourceIds: succeeded.map(e => e.resource.id),
+    });
+    if (options.json) {
+      printReport(dataset.name, run, timer);
+    }
+
+    printRetrySummary();
+    printCompletion();
+  } catch (error) {
+    printRetrySummary();
+    printError(error as Error);
+    const run = recordRun(dataset, { command: 'export', status: 'failed', startedAt, error: (error as Error).message });
+    if (options.json) {
+      printReport(dataset.name, run, timer);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,323 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import type { SemiontApiClient } from '@semiont/api-client';
+import type { AccessToken, AnnotationId, ResourceId } from '@semiont/core';
+import { DATASETS } from '../datasets/loader.js';
+import type { DatasetConfigWithPaths } from '../types.js';
+import { resolveBackend, connectBackend } from '../profiles.js';
+import { apiCall, printRetrySummary } from '../api-call.js';
+import { mapWithConcurrency, resolveConcurrency, type Throttle } from '../concurrency.js';
+import { readStateIfExists, replaceResources, recordRun, collectResourceIds, type AnnotationRef, type StateResources } from '../state.js';
+import { readBundle, type BundleManifest, type SpecificResourceBody, type TextualBody, type WebAnnotation } from '../bundle.js';
+import { uploadFiles, type ResourceFile } from '../resources.js';
+import { openJournal, journalPathFor, clearJournal } from '../checkpoint.js';
+import {
+  printMainHeader,
+  printLine,
+  printSectionHeader,
+  printInfo,
+  printSuccess,
+  printWarning,
+  printBatchProgress,
+  printFilesystemPath,
+  printCompletion,
+  printError,
+} from '../display.js';
+
+export interface ImportOptions {
+  dataset?: string;     // Dataset whose state records the import (default: the bundle's dataset)
+  concurrency?: number; // Maximum requests in flight
+}
+
+interface BundleFile extends ResourceFile {
+  sourceId: ResourceId; // ID in the backend the bundle was exported from
+}
+
+/**
+ * Old → new IDs. Backend IDs appear both bare and as URIs ending in the ID,
+ * so each is also remembered by its last path segment.
+ */
+type IdMap = Map<string, string>;
+
+function lastSegment(id: string): string {
+  return id.slice(id.lastIndexOf('/') + 1);
+}
+
+function remember(map: IdMap, oldId: string, newId: string): void {
+  map.set(oldId, newId);
+  map.set(lastSegment(oldId), newId);
+}
+
+function lookup<T extends string>(map: IdMap, oldId: string): T | undefined {
+  return (map.get(oldId) ?? map.get(lastSegment(oldId))) as T | undefined;
+}
+
+/**
+ * Read the bundle and the dataset it is imported into, refusing to overwrite a state that still records resources
+ */
+function openBundle(bundleDir: string, datasetName: string | undefined): {
+  manifest: BundleManifest;
+  annotations: WebAnnotation[];
+  dataset: DatasetConfigWithPaths;
+} {
+  const { manifest, annotations } = readBundle(bundleDir);
+  const name = datasetName ?? manifest.dataset;
+  const dataset = DATASETS[name];
+  if (!dataset) {
+    throw new Error(`Unknown dataset: ${name}. Available: ${Object.keys(DATASETS).join(', ')} (choose one with --dataset)`);
+  }
+
+  const existing = readStateIfExists(dataset);
+  const recorded = existing ? collectResourceIds(existing).length : 0;
+  if (recorded > 0) {
+    throw new Error(`State for ${name} already records ${recorded} resources. Run "demo ${name} teardown" first, or import into another dataset with --dataset.`);
+  }
+  return { manifest, annotations, dataset };
+}
+
+/**
+ * Read every content file, failing if one no longer matches the checksum in the manifest
+ */
+function readContentFiles(bundleDir: string, manifest: BundleManifest): BundleFile[] {
+  return manifest.resources.map(resource => {
+    const content = readFileSync(join(bundleDir, resource.file));
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    if (sha256 !== resource.sha256) {
+      throw new Error(`Checksum mismatch for ${resource.file}: the file changed after export`);
+    }
+    return {
+      sourceId: resource.id,
+      name: resource.name,
+      content,
+      format: resource.mediaType,
+      entityTypes: resource.entityTypes,
+      ...(resource.language && { language: resource.language }),
+    };
+  });
+}
+
+interface RecreateOutcome {
+  linked: number;
+  unlinked: number; // SpecificResource bodies whose target is not in the bundle
+}
+
+/**
+ * Recreate one annotation on its imported resource: selectors and textual bodies
+ * first, then each SpecificResource body re-pointed at the imported target.
+ * `onCreated` is called as soon as the annotation exists, before its links are added.
+ */
+async function recreateAnnotation(
+  annotation: WebAnnotation,
+  resourceIds: IdMap,
+  client: SemiontApiClient,
+  auth: AccessToken,
+  throttle: Throttle,
+  onCreated: (ref: AnnotationRef) => void,
+): Promise<RecreateOutcome> {
+  const resourceId = lookup<ResourceId>(resourceIds, annotation.target.source);
+  if (!resourceId) {
+    throw new Error(`target resource ${annotation.target.source} was not imported`);
+  }
+  const textual = annotation.body.filter((body): body is TextualBody => body.type === 'TextualBody');
+  const links = annotation.body.filter((body): body is SpecificResourceBody => body.type === 'SpecificResource');
+
+  const response = await apiCall('createAnnotation', () => client.createAnnotation(resourceId, {
+    motivation: annotation.motivation,
+    target: { source: resourceId, selector: annotation.target.selector },
+    body: textual,
+  }, { auth }), { throttle });
+  const annotationId = response.annotationId as AnnotationId;
+  onCreated({ resourceId, annotationId });
+
+  let linked = 0;
+  let unlinked = 0;
+  for (const link of links) {
+    const source = lookup<ResourceId>(resourceIds, link.source);
+    if (!source) {
+      printWarning(`Link ${annotation.id} → ${link.source}: target is not in the bundle, left unlinked`, 7);
+      unlinked++;
+      continue;
+    }
+    await apiCall('updateAnnotationBody', () => client.updateAnnotationBody(resourceId, annotationId, {
+      resourceId,
+      operations: [{
+        op: 'add',
+        item: { type: 'SpecificResource', source, purpose: link.purpose ?? 'linking' },
+      }],
+    }, { auth }), { throttle });
+    linked++;
+  }
+  return { linked, unlinked };
+}
+
+/**
+ * Rewrite the exported run state with the imported IDs; entries whose resource
+ * or annotation was not recreated are dropped
+ */
+function remapState(state: StateResources, resourceIds: IdMap, annotationIds: IdMap): StateResources {
+  const resource = (id: ResourceId) => lookup<ResourceId>(resourceIds, id);
+  const annotation = (id: AnnotationId) => lookup<AnnotationId>(annotationIds, id);
+  const resources = (ids: ResourceId[]) => ids.map(resource).filter((id): id is ResourceId => id !== undefined);
+
+  const remapped: StateResources = { formattedText: state.formattedText };
+  if (state.tocId) remapped.tocId = resource(state.tocId);
+  if (state.chunkIds) remapped.chunkIds = resources(state.chunkIds);
+  // Ranges are aligned with the chunk IDs, so they only carry over if every chunk was recreated
+  if (state.chunkRanges && remapped.chunkIds?.length === state.chunkIds?.length) remapped.chunkRanges = state.chunkRanges;
+  if (state.documentIds) remapped.documentIds = resources(state.documentIds);
+  if (state.phaseResourceIds) {
+    remapped.phaseResourceIds = Object.fromEntries(
+      Object.entries(state.phaseResourceIds).map(([phase, ids]) => [phase, resources(ids)]));
+  }
+  if (state.references) {
+    remapped.references = state.references.flatMap(ref => {
+      const documentId = resource(ref.documentId);
+      const annotationId = ref.annotationId ? annotation(ref.annotationId as AnnotationId) : undefined;
+      return documentId ? [{ ...ref, documentId, annotationId }] : [];
+    });
+  }
+  if (state.annotations) {
+    remapped.annotations = state.annotations.flatMap(ref => {
+      const resourceId = resource(ref.resourceId);
+      const annotationId = annotation(ref.annotationId);
+      return resourceId && annotationId ? [{ resourceId, annotationId }] : [];
+    });
+  }
+  if (state.links) {
+    remapped.links = state.links.flatMap(ref => {
+      const resourceId = resource(ref.resourceId);
+      const annotationId = annotation(ref.annotationId);
+      const targetId = resource(ref.targetId);
+      return resourceId && annotationId && targetId ? [{ resourceId, annotationId, targetId }] : [];
+    });
+  }
+  if (state.contentIndex) {
+    remapped.contentIndex = Object.fromEntries(Object.entries(state.contentIndex)
+      .flatMap(([key, id]) => {
+        const mapped = resource(id);
+        return mapped ? [[key, mapped]] : [];
+      }));
+  }
+  if (state.tocs) {
+    remapped.tocs = Object.fromEntries(Object.entries(state.tocs)
+      .flatMap(([phase, toc]) => {
+        const tocId = resource(toc.tocId);
+        return tocId ? [[phase, { ...toc, tocId }]] : [];
+      }));
+  }
+  return remapped;
+}
+
+/**
+ * Recreate an exported bundle in the current backend: upload the content files,
+ * recreate the annotations on the new resources, re-link SpecificResource bodies
+ * to the new targets, and write a fresh run state so validate and teardown work.
+ * Uploads are checkpointed in the upload journal, so an import interrupted in
+ * Pass 1 resumes without duplicates, and the resources and annotations are
+ * recorded in state as soon as they exist. The state is written even when some requests fail, so
+ * teardown can remove a partial import.
+ */
+export async function importCommand(bundleDir: string, options: ImportOptions = {}): Promise<void> {
+  let bundle: ReturnType<typeof openBundle>;
+  try {
+    bundle = openBundle(bundleDir, options.dataset);
+  } catch (error) {
+    printError(error as Error);
+    throw error;
+  }
+  const { manifest, annotations, dataset } = bundle;
+
+  printMainHeader(dataset.emoji || '📄', `${dataset.displayName} Demo - Import`);
+  const startedAt = new Date().toISOString();
+
+  try {
+    printFilesystemPath('Bundle', bundleDir, 3);
+    printInfo(`Exported from ${manifest.backend ?? 'an unknown backend'} at ${manifest.exportedAt} (dataset ${manifest.dataset})`);
+    const files = readContentFiles(bundleDir, manifest);
+    printSuccess(`${files.length} content files match their checksums, ${annotations.length} annotations`);
+
+    // Resolve the backend (active profile or SEMIONT_URL/AUTH_*) - NO DEFAULTS, FAIL LOUDLY
+    const backend = resolveBackend();
+
+    // Pass 0: Authentication
+    printSectionHeader('🔐', 0, 'Authentication');
+    const { client, auth } = await connectBackend(backend);
+
+    // Pass 1: Create resources (resources created by an interrupted import are reused from the journal)
+    printSectionHeader('📤', 1, 'Create Resources');
+    const journal = openJournal(journalPathFor(dataset.stateFile));
+    const resumable = Object.keys(journal.entries).length;
+    if (resumable > 0) {
+      printInfo(`Resuming: ${resumable} resources were created by an earlier, interrupted import`);
+    }
+    const concurrency = resolveConcurrency(options.concurrency, dataset.concurrency);
+    const upload = await uploadFiles(files, client, auth, { concurrency, journal });
+    const resourceIds: IdMap = new Map();
+    upload.uploaded.forEach((file, i) => remember(resourceIds, file.sourceId, upload.ids[i]));
+
+    // Record the resources before creating annotations, so teardown can reach them if the import stops here
+    const imported = remapState(manifest.state, resourceIds, new Map());
+    replaceResources(dataset, imported);
+    clearJournal(journal);
+
+    // Pass 2: Recreate annotations and links, recording each annotation in state as it is created
+    printSectionHeader('🔗', 2, 'Recreate Annotations');
+    const annotationIds: IdMap = new Map();
+    const created: AnnotationRef[] = [];
+    const failures: string[] = [];
+    const outcomes = await mapWithConcurrency(annotations, concurrency, async (annotation, i, throttle) => {
+      printBatchProgress(i + 1, annotations.length, `Recreating ${annotation.motivation} annotation on ${annotation.target.source}...`);
+      try {
+        return await recreateAnnotation(annotation, resourceIds, client, auth, throttle, ref => {
+          remember(annotationIds, annotation.id, ref.annotationId);
+          created.push(ref);
+          replaceResources(dataset, { ...imported, annotations: [...created] });
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        printWarning(`Failed: ${annotation.id}: ${message}`, 7);
+        failures.push(annotation.id);
+        return { linked: 0, unlinked: 0 };
+      }
+    });
+    const linked = outcomes.reduce((sum, o) => sum + o.linked, 0);
+    const unlinked = outcomes.reduce((sum, o) => sum + o.unlinked, 0);
+    printSuccess(`Recreated ${annotations.length - failures.length}/${annotations.length} annotations, ${linked} links`);
+    if (unlinked > 0) {
+      printWarning(`${unlinked} links point at resources outside the bundle and were left unlinked`);
+    }
+
+    // Pass 3: Write state. Every recreated annotation is recorded for teardown and status;
+    // ToC stubs are already reached through the ToC references.
+    printSectionHeader('💾', 3, 'Write State');
+    const state = remapState(manifest.state, resourceIds, annotationIds);
+    const stubs = new Set(state.references?.map(ref => ref.annotationId));
+    state.annotations = created.filter(ref => !stubs.has(ref.annotationId));
+    replaceResources(dataset, state);
+    printFilesystemPath('State', dataset.stateFile, 3);
+
+    if (upload.failed.length > 0 || failures.length > 0) {
+      printLine();
+      printInfo(`Remove the partial import with: demo ${dataset.name} teardown`);
+      throw new Error(`${upload.failed.length} of ${files.length} resources and ${failures.length} of ${annotations.length} annotations failed to import`);
+    }
+
+    recordRun(dataset, {
+      command: 'import',
+      status: 'success',
+      startedAt,
+      counts: { resources: upload.ids.length, annotations: annotations.length, links: linked, unlinked },
+      resourceIds: collectResourceIds(state),
+    });
+
+    printRetrySummary();
+    printInfo(`Check the import with: demo ${dataset.name} validate`);
+    printCompletion();
+  } catch (error) {
+    printRetrySummary();
+    printError(error as Error);
+    recordRun(dataset, { command: 'import', status: 'failed', startedAt, error: (error as Error).message });
+    throw error;
+  }
+}
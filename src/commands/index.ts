@@ -2,17 +2,37 @@ import { downloadCommand } from './download.js';
 import { loadCommand } from './load.js';
 import { annotateCommand } from './annotate.js';
 import { validateCommand } from './validate.js';
+import { teardownCommand } from './teardown.js';
+import { runCommand } from './run.js';
+import { exportCommand } from './export.js';
 
 // Type-safe command registry (commands are statically defined)
 export const COMMANDS = {
   download: downloadCommand,
   load: loadCommand,
   annotate: annotateCommand,
-  validate: validateCommand
+  validate: validateCommand,
+  teardown: teardownCommand,
+  run: runCommand,
+  export: exportCommand
 } as const;
 
 // Extract command names as a union type for compile-time safety
 export type CommandName = keyof typeof COMMANDS;
 
-// Command function signature - all commands accept a dataset name string
-export type CommandFunction = (datasetName: string) => Promise<void>;
+// Options shared by dataset commands (parsed from global CLI flags)
+export interface CommandOptions {
+  dryRun?: boolean; // Report what would change without touching the backend
+  output?: string;  // load --dry-run: directory for the planned uploads; export: bundle directory
+  yes?: boolean;    // Skip confirmation prompts
+  from?: string;    // run: first pipeline stage to execute
+  to?: string;      // run: last pipeline stage to execute
+  concurrency?: number; // load: maximum uploads/annotation requests in flight
+  json?: boolean;   // Print one JSON result document instead of the pretty output
+  incremental?: boolean; // load: upload only new or changed items, archive what they replace
+  set?: string[];   // key=value overrides of the dataset's config.yaml fields
+  parallel?: number; // Batch runs: datasets processed at once
+}
+
+// Command function signature - all commands accept a dataset name string and optional options
+export type CommandFunction = (datasetName: string, options?: CommandOptions) => Promise<void>;
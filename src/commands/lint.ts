@@ -0,0 +1,97 @@
+import { existsSync } from 'node:fs';
+import { basename, join, relative } from 'node:path';
+import { activeScenarioRoots, checkYamlConfig, findScenarioDirs } from '../datasets/loader.js';
+import { formatPath, type ConfigIssue } from '../datasets/schema.js';
+import {
+  printMainHeader,
+  printLine,
+  printInfo,
+  printSuccess,
+  printWarning,
+  printError,
+} from '../display.js';
+
+interface LintResult {
+  name: string;
+  scenarioDir: string;
+  issues: ConfigIssue[];
+}
+
+/**
+ * Issues in base configs and included files name the file, relative to the scenario
+ */
+function printIssue(issue: ConfigIssue, scenarioDir: string): void {
+  const marker = issue.severity === 'error' ? '✗' : '⚠';
+  const file = issue.file && issue.file !== join(scenarioDir, 'config.yaml') ? `${relative(scenarioDir, issue.file)} ` : '';
+  const line = `${file}${issue.line ? `line ${issue.line}` : ''}`;
+  const path = issue.path.length ? `${formatPath(issue.path)}: ` : '';
+  printInfo(`${marker} ${line.padEnd(8)} ${path}${issue.message}`, 5);
+}
+
+/**
+ * Validate scenario config.yaml files: schema, phase and ToC references,
+ * Handlebars templates and regular expressions. Unlike the other commands this
+ * also reports configs that fail to load. Fails if any config has errors.
+ */
+export async function lintCommand(datasetName: string | undefined): Promise<void> {
+  try {
+    const results: LintResult[] = [];
+    let legacy = 0;
+    let bases = 0;
+    for (const scenarioDir of findScenarioDirs(activeScenarioRoots())) {
+      const yamlPath = join(scenarioDir, 'config.yaml');
+      if (!existsSync(yamlPath)) {
+        legacy++;
+        continue;
+      }
+      const { config, issues } = await checkYamlConfig(yamlPath);
+      if (config?.abstract) {
+        bases++;
+        continue;
+      }
+      const name = typeof config?.name === 'string' ? config.name : basename(scenarioDir);
+      results.push({ name, scenarioDir, issues });
+    }
+
+    const selected = datasetName ? results.filter(r => r.name === datasetName) : results;
+    if (datasetName && selected.length === 0) {
+      throw new Error(`Unknown dataset: ${datasetName}. Available: ${results.map(r => r.name).join(', ')}`);
+    }
+
+    printMainHeader('🔎', datasetName ? `Lint ${datasetName}` : `Lint scenario configs (${selected.length})`);
+
+    for (const result of selected) {
+      const errors = result.issues.filter(issue => issue.severity === 'error').length;
+      const warnings = result.issues.length - errors;
+      if (result.issues.length === 0) {
+        printSuccess(`${result.name}`);
+        continue;
+      }
+      const counts = [errors && `${errors} error${errors === 1 ? '' : 's'}`, warnings && `${warnings} warning${warnings === 1 ? '' : 's'}`]
+        .filter(Boolean).join(', ');
+      if (errors > 0) {
+        printLine(`   ❌ ${result.name} (${counts})`);
+      } else {
+        printWarning(`${result.name} (${counts})`);
+      }
+      printInfo(join(result.scenarioDir, 'config.yaml'), 5);
+      result.issues.forEach(issue => printIssue(issue, result.scenarioDir));
+    }
+
+    printLine();
+    if (legacy > 0 && !datasetName) {
+      printInfo(`Skipped ${legacy} legacy config.ts scenario${legacy === 1 ? '' : 's'}`);
+    }
+    if (bases > 0 && !datasetName) {
+      printInfo(`Skipped ${bases} abstract base config${bases === 1 ? '' : 's'} (checked through the configs that extend them)`);
+    }
+    const failed = selected.filter(r => r.issues.some(issue => issue.severity === 'error'));
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} of ${selected.length} configs have errors: ${failed.map(r => r.name).join(', ')}`);
+    }
+    printSuccess(`${selected.length} config${selected.length === 1 ? '' : 's'} valid`);
+  } catch (error) {
+    printError(error as Error);
+    throw error;
+  }
+}
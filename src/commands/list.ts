@@ -0,0 +1,55 @@
+import { DATASETS } from '../datasets/loader.js';
+import type { DatasetConfigWithPaths } from '../types.js';
+import { describeChunking } from '../chunking.js';
+import { printMainHeader, printLine, printInfo } from '../display.js';
+
+/**
+ * How a dataset's content is split into resources
+ */
+function describeResources(dataset: DatasetConfigWithPaths): string {
+  if (dataset.customLoad) return 'handler-managed';
+  if (dataset.isMultiDocument) {
+    const split = dataset.shouldChunk && dataset.chunkStrategy && dataset.chunkStrategy !== 'size';
+    return split ? `one resource per document section (${describeChunking(dataset)})` : 'one resource per document';
+  }
+  if (!dataset.shouldChunk) return 'single document';
+  return describeChunking(dataset);
+}
+
+/**
+ * What the annotate command does for a dataset
+ */
+function describeAnnotate(dataset: DatasetConfigWithPaths): string {
+  const phases = dataset.highlightPhases?.length ?? 0;
+  if (phases > 0) return `AI highlights (${phases} phase${phases === 1 ? '' : 's'})`;
+  if (dataset.detectCitations) return 'legal citations';
+  return '-';
+}
+
+export async function listCommand(): Promise<void> {
+  const datasets = Object.values(DATASETS).sort((a, b) => a.name.localeCompare(b.name));
+
+  printMainHeader('📚', `Datasets (${datasets.length})`);
+
+  if (datasets.length === 0) {
+    printInfo('No datasets found. Check that the structured-knowledge submodule is checked out.');
+    return;
+  }
+
+  const rows = datasets.map(d => [
+    d.name,
+    d.handler ?? '(config.ts)',
+    describeResources(d),
+    d.createTableOfContents ? 'yes' : 'no',
+    describeAnnotate(d),
+    d.tags?.join(',') || '-',
+  ]);
+  const header = ['NAME', 'HANDLER', 'CHUNKING', 'TOC', 'ANNOTATE', 'TAGS'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const format = (cells: string[]) => '   ' + cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+
+  printLine(format(header));
+  rows.forEach(row => printLine(format(row)));
+  printLine();
+  printInfo(`Run "demo status <dataset>" for a dataset's progress, or "demo <dataset> <command>" to run a command.`);
+}
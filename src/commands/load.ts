@@ -1,24 +1,40 @@
-import { existsSync, writeFileSync } from 'node:fs';
-import { SemiontApiClient } from '@semiont/api-client';
-import type { ResourceId } from '@semiont/core';
-import { baseUrl } from '@semiont/core';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import type { SemiontApiClient } from '@semiont/api-client';
+import type { AccessToken, AnnotationId, ResourceId } from '@semiont/core';
+import { accessToken } from '@semiont/core';
+import type { CommandOptions } from './index.js';
+import type { DatasetConfig, DocumentInfo } from '../types.js';
 import { DATASETS } from '../datasets/loader.js';
-import { chunkBySize, chunkText, type ChunkInfo } from '../chunking.js';
-import { authenticate } from '../auth.js';
+import { chunkDocument, chunkRanges, describeChunking, getChunkingStats, type ChunkInfo, type ChunkRange } from '../chunking.js';
+import { resolveBackend, connectBackend } from '../profiles.js';
 import {
   uploadChunks,
   uploadDocuments,
   createTableOfContents,
   createDocumentTableOfContents,
+  archiveResources,
+  tocEntryText,
   type TableOfContentsReference,
+  type TableOfContentsResult,
+  type UploadFailure,
 } from '../resources.js';
-import { createStubReferences, linkReferences } from '../annotations.js';
+import { createStubReferences, linkReferences, repointLinks } from '../annotations.js';
 import { showDocumentHistory } from '../history.js';
+import { readStateIfExists, replaceResources, recordRun, completeRun, collectResourceIds, type DemoState } from '../state.js';
+import { indexUploads, planSupersession } from '../incremental.js';
+import { printReport, startTimer, type CommandReport, type PassTimer } from '../report.js';
+import { DryRunClient } from '../dry-run.js';
+import { openJournal, journalPathFor, clearJournal, type UploadJournal } from '../checkpoint.js';
+import { resolveConcurrency } from '../concurrency.js';
+import { printRetrySummary } from '../api-call.js';
 import {
   printMainHeader,
+  printLine,
   printSectionHeader,
   printInfo,
   printSuccess,
+  printWarning,
   printDownloadStats,
   printChunkingStats,
   printResults,
@@ -26,71 +42,241 @@ import {
   printError,
 } from '../display.js';
 
-interface DemoState {
-  dataset: string;
-  tocId?: ResourceId;
-  chunkIds?: ResourceId[];
-  references?: TableOfContentsReference[];
-  formattedText: string;
-  phaseResourceIds?: Record<string, ResourceId[]>;
+/**
+ * Print where a dry run wrote its output, after writing the manifest
+ */
+function printDryRunSummary(dryRun: DryRunClient, outputDir: string): NonNullable<CommandReport['dryRun']> {
+  const summary = dryRun.writeManifest();
+  printSectionHeader('🧪', 8, 'Dry Run Output');
+  printSuccess(`Planned ${summary.resources} resources, ${summary.annotations} annotations (${summary.calls} API calls)`);
+  if (summary.mismatched > 0) {
+    printWarning(`${summary.mismatched} annotation selectors do not match the text at their offsets`);
+  }
+  printInfo(`Output:   ${outputDir}`);
+  printInfo(`Manifest: ${summary.manifestPath}`);
+  printInfo('Dry run - nothing was uploaded and the state file was not changed');
+  return { outputDir, ...summary };
+}
+
+/**
+ * Print the --json document for a dry run (nothing is recorded in state)
+ */
+function reportDryRun(datasetName: string, startedAt: string, timer: PassTimer, summary: NonNullable<CommandReport['dryRun']>): void {
+  const run = completeRun({
+    command: 'load',
+    status: 'success',
+    startedAt,
+    counts: { resources: summary.resources, annotations: summary.annotations, calls: summary.calls },
+  });
+  printReport(datasetName, run, timer, { dryRun: summary });
+}
+
+/**
+ * The previous load's ToC, if an incremental load can keep it (same entries in the same order)
+ */
+function keepTableOfContents(
+  baseline: DemoState | undefined,
+  entries: string[],
+): TableOfContentsResult | undefined {
+  if (!baseline?.tocId || !baseline.references) return undefined;
+  const previous = baseline.references.map(ref => ref.text);
+  if (previous.length !== entries.length || previous.some((text, i) => text !== entries[i])) return undefined;
+  return { tocId: baseline.tocId, references: baseline.references.map(ref => ({ ...ref })), resumed: false };
 }
 
-function saveState(dataset: { name: string; stateFile: string }, state: Omit<DemoState, 'dataset'>): void {
-  const fullState: DemoState = { dataset: dataset.name, ...state };
-  writeFileSync(dataset.stateFile, JSON.stringify(fullState, null, 2));
+/**
+ * Split each text document of a multi-document dataset at its structure
+ * (chunkStrategy markdown or legal-opinion); size-only chunking does not apply
+ * to multi-document datasets. Each section becomes a document titled
+ * "<document> - <section>", with the document, section and chunk metadata in its metadata.
+ */
+function splitDocuments(documents: DocumentInfo[], dataset: DatasetConfig): DocumentInfo[] {
+  if (!dataset.shouldChunk || !dataset.chunkStrategy || dataset.chunkStrategy === 'size') {
+    return documents;
+  }
+  printInfo(`Splitting documents: ${describeChunking(dataset)}...`);
+  const split = documents.flatMap(doc => {
+    if (typeof doc.content !== 'string') {
+      return [doc];
+    }
+    return chunkDocument(doc.content, dataset, doc.title).map(chunk => ({
+      ...doc,
+      title: chunk.title,
+      content: chunk.content,
+      metadata: { ...doc.metadata, document: doc.title, ...(chunk.section && { section: chunk.section }), ...chunk.metadata },
+    }));
+  });
+  printSuccess(`Split ${documents.length} documents into ${split.length} sections`);
+  return split;
 }
 
-export async function loadCommand(datasetName: string): Promise<void> {
+/**
+ * Archive resources replaced or removed since the previous load. Returns the number archived.
+ */
+async function archiveSuperseded(
+  superseded: ResourceId[],
+  client: SemiontApiClient,
+  auth: AccessToken,
+  step: number,
+): Promise<number> {
+  printSectionHeader('🗄️ ', step, 'Archive Superseded Resources');
+  const archived = superseded.length - await archiveResources(superseded, client, auth);
+  printSuccess(`Archived ${archived}/${superseded.length} superseded resources`);
+  return archived;
+}
+
+export async function loadCommand(datasetName: string, options: CommandOptions = {}): Promise<void> {
   const dataset = DATASETS[datasetName];
   if (!dataset) {
     throw new Error(`Unknown dataset: ${datasetName}. Available: ${Object.keys(DATASETS).join(', ')}`);
   }
 
   printMainHeader(dataset.emoji || '📄', `${dataset.displayName} Demo - Load`);
+  const startedAt = new Date().toISOString();
+  const timer = startTimer();
 
   try {
-    // Read environment variables - NO DEFAULTS, FAIL LOUDLY
-    const SEMIONT_URL = process.env.SEMIONT_URL;
-    const AUTH_EMAIL = process.env.AUTH_EMAIL;
-    const AUTH_PASSWORD = process.env.AUTH_PASSWORD;
-    const ACCESS_TOKEN = process.env.ACCESS_TOKEN;
-
-    // Validate required environment variables
-    if (!SEMIONT_URL) {
-      throw new Error('SEMIONT_URL environment variable is required');
-    }
+    // Resolve the backend (active profile or SEMIONT_URL/AUTH_*) - NO DEFAULTS, FAIL LOUDLY
+    // A dry run never contacts the backend
+    const backend = options.dryRun ? undefined : resolveBackend();
 
     // Check if cache file exists
     if (!existsSync(dataset.cacheFile)) {
       throw new Error(`Cache file not found: ${dataset.cacheFile}. Run "demo ${datasetName} download" first.`);
     }
 
-    const client = new SemiontApiClient({
-      baseUrl: baseUrl(SEMIONT_URL),
-    });
+    let client: SemiontApiClient;
+    let auth: AccessToken;
+    let dryRun: DryRunClient | undefined;
+    const dryRunDir = options.output ?? join(process.env.DATA_DIR || 'data', 'dry-run', dataset.name);
 
-    // Pass 0: Authentication
-    printSectionHeader('🔐', 0, 'Authentication');
-    const auth = await authenticate(client, {
-      email: AUTH_EMAIL,
-      password: AUTH_PASSWORD,
-      accessToken: ACCESS_TOKEN,
-    });
+    if (options.dryRun) {
+      // Pass 0: Dry run - record every API call to a local directory instead
+      printSectionHeader('🧪', 0, 'Dry Run');
+      dryRun = new DryRunClient(dryRunDir);
+      client = dryRun.asClient();
+      auth = accessToken('dry-run');
+      printInfo(`Writing planned uploads to ${dryRunDir}`);
+    } else {
+      // Pass 0: Authentication
+      printSectionHeader('🔐', 0, 'Authentication');
+      ({ client, auth } = await connectBackend(backend!));
+      timer.lap('authentication');
+    }
+
+    // Checkpoint journal: items uploaded by an interrupted earlier run are reused, not re-uploaded
+    let journal: UploadJournal | undefined;
+    if (!dryRun) {
+      journal = openJournal(journalPathFor(dataset.stateFile));
+      const resumable = Object.keys(journal.entries).length;
+      if (resumable > 0) {
+        printInfo(`Resuming: ${resumable} items were uploaded by an earlier, incomplete run`);
+      }
+    }
+
+    // A full load replaces the recorded resource IDs: refuse while the previous load's
+    // resources are still recorded (teardown could no longer reach them). An interrupted
+    // load being resumed through the journal reuses its resources instead.
+    if (!dryRun && !options.incremental && Object.keys(journal!.entries).length === 0) {
+      const recorded = collectResourceIds(readStateIfExists(dataset) ?? { formattedText: '' }).length;
+      if (recorded > 0) {
+        throw new Error(`State for ${dataset.name} already records ${recorded} resources from an earlier load. Run "demo ${datasetName} teardown" first, or use --incremental to update them.`);
+      }
+    }
+
+    // Incremental: compare against the content hashes recorded by the previous load
+    let baseline: DemoState | undefined;
+    if (options.incremental) {
+      baseline = readStateIfExists(dataset);
+      if (!baseline?.contentIndex) {
+        throw new Error(`No content hashes recorded for ${dataset.name}. Run a full "demo ${datasetName} load" first, then use --incremental.`);
+      }
+      printInfo(`Incremental: comparing against ${Object.keys(baseline.contentIndex).length} items from the previous load`);
+    }
+
+    // Requests in flight: --concurrency wins over the dataset's YAML setting
+    const concurrency = resolveConcurrency(options.concurrency, dataset.concurrency);
+    if (concurrency > 1) {
+      printInfo(`Concurrency: up to ${concurrency} requests in flight`);
+    }
 
     // Branch: Custom load vs Multi-document vs Single-document workflow
     if (dataset.customLoad) {
       // Custom load: handler manages its own multi-phase upload workflow
-      const result = await dataset.customLoad(client, auth);
-      saveState(dataset, {
+      const result = await dataset.customLoad(client, auth, { journal, concurrency, baseline });
+      timer.lap('upload');
+
+      // Incremental: replaced ToCs are superseded too; links on kept resources carry over
+      const contentIndex = result.contentIndex ?? {};
+      const tocs = result.tocs ?? {};
+      const supersession = baseline
+        ? planSupersession(baseline.contentIndex!, contentIndex, (result.failures ?? []).map(f => f.title))
+        : undefined;
+      for (const [name, toc] of Object.entries(baseline?.tocs ?? {})) {
+        if (tocs[name]?.tocId !== toc.tocId) supersession?.superseded.push(toc.tocId);
+      }
+      const superseded = new Set(supersession?.superseded);
+      let links = [...(baseline?.links ?? []).filter(link => !superseded.has(link.resourceId)), ...(result.links ?? [])];
+
+      let repointedCount = 0;
+      let archivedCount = 0;
+      let step = Object.keys(result.phaseResults).length + 2;
+      if (supersession && supersession.replaced.size > 0) {
+        printSectionHeader('🔗', step++, 'Re-point Links');
+        const repointed = await repointLinks(links, supersession.replaced, client, auth, { concurrency });
+        links = repointed.links;
+        repointedCount = repointed.repointed;
+        timer.lap('repointLinks');
+      }
+      if (supersession && supersession.superseded.length > 0) {
+        archivedCount = await archiveSuperseded(supersession.superseded, client, auth, step);
+        timer.lap('archive');
+      }
+
+      if (dryRun) {
+        const summary = printDryRunSummary(dryRun, dryRunDir);
+        if (options.json) reportDryRun(dataset.name, startedAt, timer, summary);
+        printCompletion();
+        return;
+      }
+      const keptAnnotations = baseline?.annotations?.filter(a => !superseded.has(a.resourceId));
+      const state = replaceResources(dataset, {
         formattedText: '',
         phaseResourceIds: result.phaseResourceIds,
+        contentIndex: supersession?.index ?? contentIndex,
+        links,
+        tocs,
+        ...(keptAnnotations?.length ? { annotations: keptAnnotations } : {}),
       });
+      const counts: Record<string, number> = { uploaded: result.totalUploaded, failed: result.totalFailed };
+      if (baseline) {
+        Object.assign(counts, { reused: result.totalReused ?? 0, repointed: repointedCount, archived: archivedCount });
+      }
+      const run = recordRun(dataset, {
+        command: 'load',
+        status: 'success',
+        startedAt,
+        counts,
+        resourceIds: collectResourceIds(state),
+      });
+      if (options.json) {
+        printReport(dataset.name, run, timer, { phases: result.phaseResults, failures: result.failures ?? [] });
+      }
+      // Keep the journal while items are outstanding so a re-run retries only those
+      if (journal && result.totalFailed === 0) clearJournal(journal);
+      printRetrySummary();
       printCompletion();
       printInfo(`Total uploaded: ${result.totalUploaded}, failed: ${result.totalFailed}`);
       return;
     }
 
     let chunkIds: ResourceId[];
+    let ranges: ChunkRange[] | undefined;
+    let failures: UploadFailure[];
+    let contentIndex: Record<string, ResourceId>;
+    let reusedCount = 0;
+    let tocKept = false;
+    let tocResumed = false;
     let tocId: ResourceId | undefined;
     let references: TableOfContentsReference[] | undefined;
     let formattedText = '';
@@ -98,24 +284,37 @@ export async function loadCommand(datasetName: string): Promise<void> {
     if (dataset.isMultiDocument && dataset.loadDocuments) {
       // Multi-document workflow
       printSectionHeader('📥', 1, 'Load Documents');
-      const documents = await dataset.loadDocuments();
+      const documents = splitDocuments(await dataset.loadDocuments(), dataset);
+      timer.lap('loadDocuments');
 
       // Pass 2: Upload Documents
       printSectionHeader('📤', 2, 'Upload Documents');
       const uploadResult = await uploadDocuments(documents, client, auth, {
         entityTypes: dataset.entityTypes,
+        journal,
+        concurrency,
+        previous: baseline?.contentIndex,
       });
       chunkIds = uploadResult.ids;
+      failures = uploadResult.failed;
+      contentIndex = indexUploads(uploadResult);
+      reusedCount = uploadResult.reused;
+      timer.lap('upload');
 
       // Pass 3: Create Table of Contents (if needed)
       if (dataset.createTableOfContents) {
         printSectionHeader('📑', 3, 'Create Table of Contents');
-        const result = await createDocumentTableOfContents(uploadResult.uploaded, client, auth, {
+        const kept = keepTableOfContents(baseline, uploadResult.uploaded.map(doc => doc.title));
+        const result = kept ?? await createDocumentTableOfContents(uploadResult.uploaded, client, auth, {
           title: dataset.tocTitle!,
           entityTypes: dataset.entityTypes,
+          journal,
         });
         tocId = result.tocId;
         references = result.references;
+        tocKept = kept !== undefined;
+        tocResumed = result.resumed;
+        timer.lap('tableOfContents');
       }
     } else if (dataset.loadText) {
       // Single-document workflow
@@ -126,17 +325,11 @@ export async function loadCommand(datasetName: string): Promise<void> {
       let chunks: ChunkInfo[];
       if (dataset.shouldChunk) {
         printSectionHeader('✂️ ', 2, 'Chunk Document');
-        if (dataset.useSmartChunking) {
-          printInfo(`Chunking at paragraph boundaries (~${dataset.chunkSize} chars per chunk)...`);
-          chunks = chunkText(formattedText, dataset.chunkSize!, `${dataset.displayName} - Part`);
-        } else {
-          printInfo(`Chunking into sections (~${dataset.chunkSize} chars per chunk)...`);
-          chunks = chunkBySize(formattedText, dataset.chunkSize!, `${dataset.displayName} - Part`);
-        }
-        const totalChars = chunks.reduce((sum, c) => sum + c.content.length, 0);
-        const avgChars = Math.round(totalChars / chunks.length);
-        printDownloadStats(totalChars, totalChars);
-        printChunkingStats(chunks.length, avgChars);
+        printInfo(`Chunking: ${describeChunking(dataset)}...`);
+        chunks = chunkDocument(formattedText, dataset, dataset.displayName);
+        const stats = getChunkingStats(chunks);
+        printDownloadStats(stats.totalCharacters, stats.totalCharacters);
+        printChunkingStats(stats.totalChunks, stats.averageChunkSize, stats.averageTokens);
       } else {
         printSectionHeader('📄', 2, 'Create Single Document');
         printInfo('Loading as a single document (no chunking)...');
@@ -144,81 +337,170 @@ export async function loadCommand(datasetName: string): Promise<void> {
           title: dataset.displayName,
           content: formattedText,
           partNumber: 1,
+          start: 0,
+          end: formattedText.length,
         }];
         printSuccess(`Created single document with ${formattedText.length.toLocaleString()} characters`);
       }
+      timer.lap('chunk');
 
       // Pass 3: Upload Chunks
       printSectionHeader('📤', 3, 'Upload Chunks');
       const chunkResult = await uploadChunks(chunks, client, auth, {
         entityTypes: dataset.entityTypes,
+        journal,
+        concurrency,
+        previous: baseline?.contentIndex,
       });
       chunkIds = chunkResult.ids;
+      ranges = chunkRanges(chunkResult.uploaded);
+      failures = chunkResult.failed;
+      contentIndex = indexUploads(chunkResult);
+      reusedCount = chunkResult.reused;
+      timer.lap('upload');
 
       // Pass 4: Create Table of Contents (if needed)
       if (dataset.createTableOfContents) {
         printSectionHeader('📑', 4, 'Create Table of Contents');
-        const result = await createTableOfContents(chunkResult.uploaded, client, auth, {
+        const kept = keepTableOfContents(baseline, chunkResult.uploaded.map(tocEntryText));
+        const result = kept ?? await createTableOfContents(chunkResult.uploaded, client, auth, {
           title: dataset.tocTitle!,
           entityTypes: dataset.entityTypes,
+          journal,
         });
         tocId = result.tocId;
         references = result.references;
+        tocKept = kept !== undefined;
+        tocResumed = result.resumed;
+        timer.lap('tableOfContents');
       }
     } else {
       throw new Error(`Dataset ${dataset.name} must have either loadText or loadDocuments configured`);
     }
 
-    // Shared workflow: Create stub references and link (if TOC was created)
-    if (dataset.createTableOfContents && tocId && references) {
+    // Incremental: which resources from the previous load were replaced or removed
+    const supersession = baseline ? planSupersession(baseline.contentIndex!, contentIndex, failures.map(f => f.title)) : undefined;
+    if (baseline?.tocId && !tocKept) {
+      supersession?.superseded.push(baseline.tocId);
+    }
+    let repointedCount = 0;
 
+    // Shared workflow: Create stub references and link (if TOC was created)
+    let linkedCount = 0;
+    if (dataset.createTableOfContents && tocId && references && tocKept) {
+      // Pass 5: The ToC entries are unchanged - point its links at replaced resources
+      printSectionHeader('🔗', 5, 'Re-point Table of Contents Links');
+      const tocLinks = references.map(ref => ({
+        resourceId: tocId!,
+        annotationId: ref.annotationId! as AnnotationId,
+        targetId: ref.documentId,
+      }));
+      const result = await repointLinks(tocLinks, supersession!.replaced, client, auth, { concurrency });
+      references.forEach((ref, i) => { ref.documentId = result.links[i].targetId; });
+      repointedCount = result.repointed;
+      linkedCount = references.length - result.failed;
+      timer.lap('repointLinks');
+    } else if (dataset.createTableOfContents && tocId && references) {
       // Pass 5: Create Stub References
       printSectionHeader('🔗', 5, 'Create Stub References');
-      const referencesWithIds = await createStubReferences(tocId, references, chunkIds, client, auth, {});
+      // Only entries with a stub are recorded, so an incremental load rebuilds a ToC that is missing some
+      references = await createStubReferences(tocId, references, chunkIds, client, auth, { concurrency, resumed: tocResumed });
+      timer.lap('stubReferences');
 
       // Pass 6: Link References to Documents
       printSectionHeader('🎯', 6, 'Link References to Documents');
-      const linkedCount = await linkReferences(tocId, referencesWithIds, client, auth);
+      linkedCount = await linkReferences(tocId, references, client, auth, { concurrency, resumed: tocResumed });
+      timer.lap('linkReferences');
+    }
 
+    if (dataset.createTableOfContents && tocId && references) {
       // Pass 7: Show Document History
       printSectionHeader('📜', 7, 'Document History');
       await showDocumentHistory(tocId, client, auth);
+      timer.lap('history');
 
       // Pass 8: Print Results
-      printResults({
-        tocId,
-        chunkIds,
-        linkedCount,
-        totalCount: references.length,
-        frontendUrl: SEMIONT_URL,
-      });
-    } else {
+      if (!dryRun) {
+        printResults({
+          tocId,
+          chunkIds,
+          linkedCount,
+          totalCount: references.length,
+          frontendUrl: backend!.url,
+        });
+      }
+    } else if (!dryRun) {
       // Pass 4: Show Document History (for non-TOC datasets)
       printSectionHeader('📜', 4, 'Document History');
       await showDocumentHistory(chunkIds[0], client, auth);
+      timer.lap('history');
 
       // Print results
       printSectionHeader('✨', 5, 'Results');
-      console.log();
-      console.log('📄 Document:');
-      console.log(`   ${SEMIONT_URL}/en/know/resource/${chunkIds[0]}`);
-      console.log();
+      printLine();
+      printLine('📄 Document:');
+      printLine(`   ${backend!.url}/en/know/resource/${chunkIds[0]}`);
+      printLine();
+    }
+
+    // Pass 9: Archive resources replaced or removed since the previous load
+    let archivedCount = 0;
+    if (supersession && supersession.superseded.length > 0) {
+      archivedCount = await archiveSuperseded(supersession.superseded, client, auth, 9);
+      timer.lap('archive');
+    }
+
+    if (dryRun) {
+      const summary = printDryRunSummary(dryRun, dryRunDir);
+      if (options.json) reportDryRun(dataset.name, startedAt, timer, summary);
+      printCompletion();
+      return;
     }
 
-    // Save state for annotate command
-    saveState(dataset, {
+    // Annotations on resources kept by an incremental load remain valid
+    const superseded = new Set(supersession?.superseded);
+    const keptAnnotations = baseline?.annotations?.filter(a => !superseded.has(a.resourceId));
+
+    // Save state for annotate command (multi-document uploads are recorded as documents, not chunks)
+    const state = replaceResources(dataset, {
       tocId,
-      chunkIds,
+      ...(dataset.isMultiDocument ? { documentIds: chunkIds } : { chunkIds, chunkRanges: ranges }),
       references,
       formattedText,
+      contentIndex: supersession?.index ?? contentIndex,
+      ...(keptAnnotations?.length ? { annotations: keptAnnotations } : {}),
     });
+    const counts: Record<string, number> = { uploaded: chunkIds.length - reusedCount, failed: failures.length, linked: linkedCount };
+    if (baseline) {
+      Object.assign(counts, { reused: reusedCount, repointed: repointedCount, archived: archivedCount });
+    }
+    const run = recordRun(dataset, {
+      command: 'load',
+      status: 'success',
+      startedAt,
+      counts,
+      resourceIds: collectResourceIds(state),
+    });
+    if (options.json) {
+      printReport(dataset.name, run, timer, { tocId, failures });
+    }
+    // Keep the journal while items are outstanding so a re-run retries only those
+    if (journal && failures.length === 0) clearJournal(journal);
 
+    printRetrySummary();
     printCompletion();
     if (dataset.detectCitations) {
-      console.log(`\n💡 Next step: Run "demo ${datasetName} annotate" to detect citations\n`);
+      printLine(`\n💡 Next step: Run "demo ${datasetName} annotate" to detect citations\n`);
     }
   } catch (error) {
+    printRetrySummary();
     printError(error as Error);
+    const failed = { command: 'load', status: 'failed' as const, startedAt, error: (error as Error).message };
+    // A dry run never touches the state file, even to record its failure
+    const run = options.dryRun ? completeRun(failed) : recordRun(dataset, failed);
+    if (options.json) {
+      printReport(dataset.name, run, timer);
+    }
     throw error;
   }
 }
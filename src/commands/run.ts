@@ -0,0 +1,172 @@
+import { existsSync } from 'node:fs';
+import type { DatasetConfigWithPaths } from '../types.js';
+import { COMMANDS, type CommandFunction, type CommandName, type CommandOptions } from './index.js';
+import { DATASETS } from '../datasets/loader.js';
+import { readStateIfExists, lastRun, hasCompleted, collectResourceIds, type DemoState } from '../state.js';
+import { openJournal, journalPathFor, journalResourceIds } from '../checkpoint.js';
+import {
+  printMainHeader,
+  printLine,
+  printSectionHeader,
+  printInfo,
+  printSuccess,
+  printCompletion,
+  printError,
+} from '../display.js';
+import { withLogContext } from '../logger.js';
+
+/**
+ * Pipeline stages in execution order
+ */
+export const PIPELINE_STAGES = ['download', 'load', 'annotate', 'validate'] as const satisfies readonly CommandName[];
+
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+type StageDecision =
+  | { action: 'run'; reason: string }
+  | { action: 'skip'; reason: string };
+
+function parseStage(value: string | undefined, flag: string, fallback: PipelineStage): PipelineStage {
+  if (value === undefined) return fallback;
+  if (!(PIPELINE_STAGES as readonly string[]).includes(value)) {
+    throw new Error(`Invalid ${flag} stage: ${value}. Stages: ${PIPELINE_STAGES.join(', ')}`);
+  }
+  return value as PipelineStage;
+}
+
+function isApplicable(dataset: DatasetConfigWithPaths, stage: PipelineStage): boolean {
+  if (stage === 'annotate') {
+    return dataset.detectCitations || (dataset.highlightPhases?.length ?? 0) > 0;
+  }
+  return true;
+}
+
+/**
+ * A stage is current when it completed after every earlier stage that has a run record.
+ * Download has no backend output, so it is current whenever the cache file exists.
+ */
+function isCurrent(dataset: DatasetConfigWithPaths, state: DemoState | undefined, stage: PipelineStage): boolean {
+  if (stage === 'download') {
+    return !dataset.downloadContent || existsSync(dataset.cacheFile);
+  }
+
+  if (!hasCompleted(state, stage)) {
+    return false;
+  }
+
+  const finishedAt = lastRun(state, stage, 'success')!.finishedAt;
+  const earlier = PIPELINE_STAGES.slice(0, PIPELINE_STAGES.indexOf(stage));
+  return earlier.every(prior => {
+    const priorRun = lastRun(state, prior, 'success');
+    return !priorRun || priorRun.finishedAt <= finishedAt;
+  });
+}
+
+/**
+ * Stages after a re-run stage are re-run too: their last success predates it,
+ * so isCurrent reports them as out of date. A re-run load needs its options
+ * adjusted (see loadOptions).
+ */
+function decideStage(dataset: DatasetConfigWithPaths, stage: PipelineStage, forced: boolean): StageDecision {
+  if (!isApplicable(dataset, stage)) {
+    return { action: 'skip', reason: 'not applicable to this dataset' };
+  }
+  if (forced) {
+    return { action: 'run', reason: 'restart point (--from)' };
+  }
+  // Re-read state each time: the previous stage may have just updated it
+  if (isCurrent(dataset, readStateIfExists(dataset), stage)) {
+    return { action: 'skip', reason: 'already current' };
+  }
+  return { action: 'run', reason: 'not yet run or out of date' };
+}
+
+/**
+ * Options for a load the pipeline runs. A full load refuses while an earlier
+ * load's resources are recorded, so the pipeline updates them with an
+ * incremental load instead; state without the content index that needs must be
+ * torn down first. An interrupted load still resumes through its journal.
+ */
+function loadOptions(dataset: DatasetConfigWithPaths, datasetName: string, options: CommandOptions): CommandOptions {
+  const state = readStateIfExists(dataset);
+  if (options.incremental || !state || collectResourceIds(state).length === 0) {
+    return options;
+  }
+  if (journalResourceIds(openJournal(journalPathFor(dataset.stateFile))).length > 0) {
+    return options;
+  }
+  if (!state.contentIndex) {
+    throw new Error(`State for ${dataset.name} records an earlier load that cannot be updated incrementally (it has no content index). Run "demo ${datasetName} teardown" before re-running load.`);
+  }
+  return { ...options, incremental: true };
+}
+
+export async function runCommand(datasetName: string, options: CommandOptions = {}): Promise<void> {
+  const dataset = DATASETS[datasetName];
+  if (!dataset) {
+    throw new Error(`Unknown dataset: ${datasetName}. Available: ${Object.keys(DATASETS).join(', ')}`);
+  }
+
+  printMainHeader(dataset.emoji || '📄', `${dataset.displayName} Demo - Run Pipeline`);
+
+  let from: PipelineStage;
+  let stages: PipelineStage[];
+  try {
+    // Only load supports offline rendering; annotate and validate would still hit the backend
+    if (options.dryRun) {
+      throw new Error(`run does not support --dry-run. Use "demo ${datasetName} load --dry-run" instead.`);
+    }
+    // Each stage would print its own document; scripts should call the stages directly
+    if (options.json) {
+      throw new Error('run does not support --json. Run download, load, annotate and validate with --json individually.');
+    }
+    from = parseStage(options.from, '--from', PIPELINE_STAGES[0]);
+    const to = parseStage(options.to, '--to', PIPELINE_STAGES[PIPELINE_STAGES.length - 1]);
+    stages = PIPELINE_STAGES.slice(PIPELINE_STAGES.indexOf(from), PIPELINE_STAGES.indexOf(to) + 1);
+    if (stages.length === 0) {
+      throw new Error(`--from ${from} comes after --to ${to}`);
+    }
+  } catch (error) {
+    printError(error as Error);
+    throw error;
+  }
+
+  printInfo(`Stages: ${stages.join(' → ')}`);
+
+  let stepNumber = 1;
+
+  for (const stage of stages) {
+    const decision = decideStage(dataset, stage, options.from !== undefined && stage === from);
+
+    if (decision.action === 'skip') {
+      printSectionHeader('⏭️ ', stepNumber++, `${stage} (skipped: ${decision.reason})`);
+      continue;
+    }
+
+    let stageOptions = options;
+    if (stage === 'load') {
+      try {
+        stageOptions = loadOptions(dataset, datasetName, options);
+      } catch (error) {
+        printError(error as Error);
+        throw error;
+      }
+    }
+    const incremental = stageOptions.incremental && !options.incremental ? ', incremental: updates the earlier load' : '';
+    printSectionHeader('▶️ ', stepNumber++, `${stage} (${decision.reason}${incremental})`);
+
+    const command: CommandFunction = COMMANDS[stage];
+    try {
+      await withLogContext({ command: stage }, () => command(datasetName, stageOptions));
+    } catch (error) {
+      printLine();
+      printInfo(`Pipeline stopped at "${stage}".`);
+      printInfo(`Resume with: demo ${datasetName} run --from ${stage}`);
+      throw error;
+    }
+  }
+
+  printLine();
+  printSuccess(`Pipeline finished: ${stages.join(' → ')}`);
+  printCompletion();
+}
@@ -0,0 +1,138 @@
+import { existsSync } from 'node:fs';
+import type { SemiontApiClient } from '@semiont/api-client';
+import type { AccessToken, ResourceId } from '@semiont/core';
+import { DATASETS } from '../datasets/loader.js';
+import type { DatasetConfigWithPaths } from '../types.js';
+import { resolveBackend, connectBackend, activeProfile } from '../profiles.js';
+import { apiCall, isNotFound } from '../api-call.js';
+import { formatOverrides } from '../overrides.js';
+import { readStateIfExists, lastRun, hasCompleted, collectResourceIds, type DemoState } from '../state.js';
+import {
+  printMainHeader,
+  printLine,
+  printInfo,
+  printWarning,
+  printError,
+} from '../display.js';
+
+export interface StatusOptions {
+  remote?: boolean; // Check that recorded resources still exist in the backend
+}
+
+interface RemoteCheck {
+  present: number;
+  archived: ResourceId[];
+  missing: ResourceId[];
+  errors: { id: ResourceId; error: string }[];
+}
+
+/**
+ * One-line summary of a command's most recent run
+ */
+function describeLastRun(state: DemoState | undefined, command: string): string {
+  const run = lastRun(state, command);
+  if (!run) return 'never run';
+  const counts = Object.entries(run.counts).map(([k, v]) => `${k}: ${v}`).join(', ');
+  const overrides = run.overrides ? ` [${formatOverrides(run.overrides)}]` : '';
+  const summary = `${run.status} at ${run.finishedAt}${counts ? ` (${counts})` : ''}${overrides}`;
+  if (run.status === 'success' && !hasCompleted(state, command)) {
+    return `${summary} - since torn down`;
+  }
+  return run.error ? `${summary} - ${run.error}` : summary;
+}
+
+/**
+ * Look up each resource in the backend: present, archived, or gone (404)
+ */
+async function checkRemote(resourceIds: ResourceId[], client: SemiontApiClient, auth: AccessToken): Promise<RemoteCheck> {
+  const check: RemoteCheck = { present: 0, archived: [], missing: [], errors: [] };
+  for (const id of resourceIds) {
+    try {
+      const response = await apiCall('getResource', () => client.getResource(id, { auth }));
+      if (response.resource?.archived) {
+        check.archived.push(id);
+      } else {
+        check.present++;
+      }
+    } catch (error) {
+      if (isNotFound(error)) {
+        check.missing.push(id);
+      } else {
+        check.errors.push({ id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+  return check;
+}
+
+function printDatasetStatus(dataset: DatasetConfigWithPaths, state: DemoState | undefined): ResourceId[] {
+  const resourceIds = state ? collectResourceIds(state) : [];
+
+  printLine(`\n${dataset.emoji || '📄'} ${dataset.displayName} (${dataset.name})`);
+  const cache = existsSync(dataset.cacheFile) ? `✓ ${dataset.cacheFile}` : `✗ missing (${dataset.cacheFile})`;
+  printInfo(`Cache:       ${cache}`);
+  printInfo(`Load:        ${describeLastRun(state, 'load')}`);
+  if (dataset.detectCitations || dataset.highlightPhases?.length) {
+    printInfo(`Annotate:    ${describeLastRun(state, 'annotate')}`);
+  }
+  printInfo(`Validate:    ${describeLastRun(state, 'validate')}`);
+  printInfo(`Resources:   ${resourceIds.length} recorded, ${state?.annotations?.length ?? 0} annotations`);
+  return resourceIds;
+}
+
+export async function statusCommand(datasetName: string | undefined, options: StatusOptions = {}): Promise<void> {
+  try {
+    if (datasetName && !DATASETS[datasetName]) {
+      throw new Error(`Unknown dataset: ${datasetName}. Available: ${Object.keys(DATASETS).join(', ')}`);
+    }
+    const datasets = datasetName
+      ? [DATASETS[datasetName]]
+      : Object.values(DATASETS).sort((a, b) => a.name.localeCompare(b.name));
+
+    printMainHeader('📊', datasetName ? `${DATASETS[datasetName].displayName} - Status` : 'Dataset Status');
+    const profile = activeProfile();
+    if (profile) {
+      printInfo(`Profile: ${profile}`);
+    }
+
+    // Remote checks need a backend connection, set up once for all datasets
+    let client: SemiontApiClient | undefined;
+    let auth: AccessToken | undefined;
+    if (options.remote) {
+      // Resolve the backend (active profile or SEMIONT_URL/AUTH_*) - NO DEFAULTS, FAIL LOUDLY
+      ({ client, auth } = await connectBackend(resolveBackend()));
+    }
+
+    for (const dataset of datasets) {
+      let state: DemoState | undefined;
+      try {
+        state = readStateIfExists(dataset);
+      } catch (error) {
+        printWarning(`${dataset.name}: unreadable state file: ${(error as Error).message}`);
+      }
+
+      const resourceIds = printDatasetStatus(dataset, state);
+
+      if (client && auth && resourceIds.length > 0) {
+        const check = await checkRemote(resourceIds, client, auth);
+        const problems = check.archived.length + check.missing.length + check.errors.length;
+        const line = `Remote:      ${check.present}/${resourceIds.length} present` +
+          (check.archived.length ? `, ${check.archived.length} archived` : '') +
+          (check.missing.length ? `, ${check.missing.length} missing` : '') +
+          (check.errors.length ? `, ${check.errors.length} not checked` : '');
+        if (problems === 0) {
+          printInfo(line);
+        } else {
+          printWarning(line);
+          check.missing.forEach(id => printInfo(`  missing:  ${id}`, 5));
+          check.archived.forEach(id => printInfo(`  archived: ${id}`, 5));
+          check.errors.forEach(e => printInfo(`  error:    ${e.id} (${e.error})`, 5));
+        }
+      }
+    }
+    printLine();
+  } catch (error) {
+    printError(error as Error);
+    throw error;
+  }
+}
@@ -0,0 +1,168 @@
+import { createInterface } from 'node:readline/promises';
+import type { SemiontApiClient } from '@semiont/api-client';
+import type { AccessToken, AnnotationId, ResourceId } from '@semiont/core';
+import type { CommandOptions } from './index.js';
+import { DATASETS } from '../datasets/loader.js';
+import { resolveBackend, connectBackend, activeProfile } from '../profiles.js';
+import { apiCall, isNotFound, printRetrySummary } from '../api-call.js';
+import { archiveResources } from '../resources.js';
+import { openJournal, journalPathFor, journalResourceIds, clearJournal } from '../checkpoint.js';
+import { readState, replaceResources, recordRun, collectResourceIds, type AnnotationRef, type DemoState } from '../state.js';
+import {
+  printMainHeader,
+  printLine,
+  printSectionHeader,
+  printInfo,
+  printSuccess,
+  printWarning,
+  printBatchProgress,
+  printCompletion,
+  printError,
+} from '../display.js';
+
+/**
+ * Annotations recorded in state: ToC link annotations plus annotate-command annotations
+ */
+function collectAnnotations(state: DemoState): AnnotationRef[] {
+  const annotations: AnnotationRef[] = [];
+  if (state.tocId && state.references) {
+    for (const ref of state.references) {
+      if (ref.annotationId) {
+        annotations.push({ resourceId: state.tocId, annotationId: ref.annotationId as AnnotationId });
+      }
+    }
+  }
+  annotations.push(...(state.annotations ?? []));
+  return annotations;
+}
+
+/**
+ * Ask a yes/no question on the terminal (defaults to "no")
+ */
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    throw new Error('Confirmation required but stdin is not a terminal. Re-run with --yes to proceed.');
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+async function deleteAnnotations(
+  annotations: AnnotationRef[],
+  client: SemiontApiClient,
+  auth: AccessToken,
+): Promise<number> {
+  let failed = 0;
+  for (let i = 0; i < annotations.length; i++) {
+    const { resourceId, annotationId } = annotations[i];
+    printBatchProgress(i + 1, annotations.length, `Deleting annotation ${annotationId.split('/').pop()}...`);
+    try {
+      await apiCall('deleteAnnotation', () => client.deleteAnnotation(resourceId, annotationId, { auth }));
+    } catch (error) {
+      if (!isNotFound(error)) {
+        failed++;
+        printWarning(`Failed: ${error instanceof Error ? error.message : String(error)}`, 7);
+      }
+    }
+  }
+  return failed;
+}
+
+export async function teardownCommand(datasetName: string, options: CommandOptions = {}): Promise<void> {
+  const dataset = DATASETS[datasetName];
+  if (!dataset) {
+    throw new Error(`Unknown dataset: ${datasetName}. Available: ${Object.keys(DATASETS).join(', ')}`);
+  }
+
+  printMainHeader(dataset.emoji || '📄', `${dataset.displayName} Demo - Teardown`);
+  const startedAt = new Date().toISOString();
+
+  try {
+    // Pass 1: Load state and summarize what will be removed
+    printSectionHeader('📂', 1, 'Load State');
+    const state = readState(dataset);
+    // Include uploads from an interrupted load, which only the checkpoint journal knows about
+    const journal = openJournal(journalPathFor(dataset.stateFile));
+    const resourceIds = [...new Set([...collectResourceIds(state), ...journalResourceIds(journal)])];
+    const annotations = collectAnnotations(state);
+
+    if (resourceIds.length === 0 && annotations.length === 0) {
+      printInfo('State records no resources or annotations - nothing to tear down');
+      printCompletion();
+      return;
+    }
+
+    printLine();
+    printLine('🗑️  Teardown summary:');
+    printLine(`   Annotations to delete: ${annotations.length}`);
+    printLine(`   Resources to archive:  ${resourceIds.length}`);
+    printLine(`   State file to clear:   ${dataset.stateFile}`);
+    printLine(`   Backend profile:       ${activeProfile() ?? '(SEMIONT_URL from environment)'}`);
+
+    if (options.dryRun) {
+      printLine();
+      printLine('   Annotations:');
+      annotations.forEach(a => printLine(`     - ${a.annotationId} (on ${a.resourceId})`));
+      printLine('   Resources:');
+      resourceIds.forEach(id => printLine(`     - ${id}`));
+      printLine();
+      printInfo('Dry run - no changes made');
+      printCompletion();
+      return;
+    }
+
+    printLine();
+    if (!options.yes && !(await confirm('Proceed with teardown?'))) {
+      printInfo('Teardown cancelled');
+      return;
+    }
+
+    // Resolve the backend (active profile or SEMIONT_URL/AUTH_*) - NO DEFAULTS, FAIL LOUDLY
+    const backend = resolveBackend();
+
+    // Pass 2: Authentication
+    printSectionHeader('🔐', 2, 'Authentication');
+    const { client, auth } = await connectBackend(backend);
+
+    // Pass 3: Delete annotations (before their resources are archived)
+    printSectionHeader('✂️ ', 3, 'Delete Annotations');
+    const failedAnnotations = await deleteAnnotations(annotations, client, auth);
+    printSuccess(`Deleted ${annotations.length - failedAnnotations}/${annotations.length} annotations`);
+
+    // Pass 4: Archive resources
+    printSectionHeader('🗄️ ', 4, 'Archive Resources');
+    const failedResources = await archiveResources(resourceIds, client, auth);
+    printSuccess(`Archived ${resourceIds.length - failedResources}/${resourceIds.length} resources`);
+
+    const counts = {
+      annotationsDeleted: annotations.length - failedAnnotations,
+      resourcesArchived: resourceIds.length - failedResources,
+      failed: failedAnnotations + failedResources,
+    };
+
+    // Keep state intact on partial failure so teardown can be re-run
+    if (counts.failed > 0) {
+      throw new Error(`Teardown incomplete: ${counts.failed} items failed. State file kept; re-run to retry.`);
+    }
+
+    // Pass 5: Clear state (run history is kept)
+    printSectionHeader('🧹', 5, 'Clear State');
+    replaceResources(dataset, { formattedText: '' });
+    clearJournal(journal);
+    recordRun(dataset, { command: 'teardown', status: 'success', startedAt, counts, resourceIds });
+    printSuccess(`Cleared ${dataset.stateFile}`);
+
+    printRetrySummary();
+    printCompletion();
+  } catch (error) {
+    printRetrySummary();
+    printError(error as Error);
+    recordRun(dataset, { command: 'teardown', status: 'failed', startedAt, error: (error as Error).message });
+    throw error;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Bounded Concurrency
+ *
+ * Runs API calls through a fixed-size worker pool while keeping results in
+ * input order. Workers in the same pool share a throttle: when the backend
+ * answers 429 or 503, apiCall() pauses every worker until the backoff expires.
+ */
+
+/**
+ * Shared backoff state for one pool
+ */
+export interface Throttle {
+  pausedUntil: number; // epoch ms; workers wait until this time before their next call
+}
+
+/**
+ * Normalize a concurrency setting: at least 1, integer
+ */
+export function resolveConcurrency(...candidates: Array<number | undefined>): number {
+  const value = candidates.find(c => c !== undefined && Number.isFinite(c));
+  return Math.max(1, Math.floor(value ?? 1));
+}
+
+/**
+ * Map items through an async worker with at most `concurrency` in flight.
+ * Results are returned in input order regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number, throttle: Throttle) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const throttle: Throttle = { pausedUntil: 0 };
+  let next = 0;
+
+  async function runWorker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index, throttle);
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, () => runWorker());
+  await Promise.all(workers);
+  return results;
+}
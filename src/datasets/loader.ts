@@ -1,10 +1,14 @@
-import { existsSync, readdirSync, readFileSync } from 'node:fs';
-import { join, dirname, isAbsolute } from 'node:path';
+import { existsSync, readdirSync } from 'node:fs';
+import { join, dirname, isAbsolute, delimiter, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import * as yaml from 'js-yaml';
 import type { DatasetConfig, DatasetConfigWithPaths } from '../types.js';
 import type { DatasetYamlConfig } from '../handlers/types.js';
 import { HANDLERS } from '../handlers/index.js';
+import { loadHandlerModule } from '../handlers/plugins.js';
+import { stateFilePath } from '../profiles.js';
+import { parseOverrides } from '../overrides.js';
+import { validateDatasetConfig, ConfigError, type ConfigIssue } from './schema.js';
+import { loadYamlSource, type YamlSource } from './yaml-source.js';
 
 /**
  * Resolve cacheFile path. Absolute paths (including /tmp/) are kept as-is.
@@ -39,13 +43,22 @@ function yamlToDatasetConfig(yamlConfig: DatasetYamlConfig, scenarioDir: string)
     name: yamlConfig.name,
     displayName: yamlConfig.displayName || yamlConfig.name,
     emoji: yamlConfig.emoji || '📄',
+    handler: yamlConfig.handler,
+    tags: yamlConfig.tags,
     shouldChunk: yamlConfig.shouldChunk || false,
     chunkSize: yamlConfig.chunkSize,
     useSmartChunking: yamlConfig.useSmartChunking,
+    chunkStrategy: yamlConfig.chunkStrategy,
+    headingDepth: yamlConfig.headingDepth,
+    targetTokens: yamlConfig.targetTokens,
+    maxTokens: yamlConfig.maxTokens,
+    overlapChars: yamlConfig.overlapChars,
+    overlapParagraphs: yamlConfig.overlapParagraphs,
     entityTypes: yamlConfig.entityTypes || [],
     createTableOfContents: yamlConfig.createTableOfContents || false,
     tocTitle: yamlConfig.tocTitle,
     detectCitations: yamlConfig.detectCitations || false,
+    concurrency: yamlConfig.concurrency,
     cacheFile: resolvedCacheFile,
     isMultiDocument: yamlConfig.isMultiDocument,
     extractionConfig: yamlConfig.extractionConfig ? {
@@ -72,7 +85,7 @@ function yamlToDatasetConfig(yamlConfig: DatasetYamlConfig, scenarioDir: string)
 
     // Custom load: handler manages its own upload workflow (multi-phase with cross-references)
     customLoad: handler.customLoad
-      ? (client, auth) => handler.customLoad!(resolvedConfig, scenarioDir, client, auth)
+      ? (client, auth, options) => handler.customLoad!(resolvedConfig, scenarioDir, client, auth, options)
       : undefined,
 
     // Annotate command config
@@ -81,75 +94,239 @@ function yamlToDatasetConfig(yamlConfig: DatasetYamlConfig, scenarioDir: string)
 }
 
 /**
- * Dynamically load all dataset configurations from the structured-knowledge submodule
- * Each dataset should be in its own subdirectory with a config.yaml file
- * Scans both structured-knowledge/scenarios/ and structured-knowledge/scenarios/private/ directories
+ * Parse and validate a scenario's config.yaml without throwing. Base configs
+ * (extends), !include files and ${ENV} references are resolved first (see
+ * yaml-source.ts). A handlerModule is imported and registered, and the config's
+ * handler is set to the name the module declares. Issues carry the file and
+ * line of the offending value.
  */
-export async function loadDatasets(): Promise<Record<string, DatasetConfigWithPaths>> {
-  const __filename = fileURLToPath(import.meta.url);
-  const __dirname = dirname(__filename);
-  // In dev: src/datasets/loader.ts -> ../../structured-knowledge/scenarios
-  // In built bundle: dist/cli.js -> ../structured-knowledge/scenarios
-  const isBundled = __filename.includes('/dist/');
-  const configDir = isBundled ? join(__dirname, '../structured-knowledge/scenarios') : join(__dirname, '../../structured-knowledge/scenarios');
+export async function checkYamlConfig(yamlPath: string): Promise<{ config?: DatasetYamlConfig; issues: ConfigIssue[] }> {
+  let source: YamlSource;
+  try {
+    source = loadYamlSource(yamlPath);
+  } catch (error) {
+    // Syntax errors (YAMLException) say which file and line; missing includes only which file
+    const mark = (error as { mark?: { name?: string; line: number } }).mark;
+    if (!mark) {
+      return { issues: [{ severity: 'error', path: [], message: error instanceof Error ? error.message : String(error), file: yamlPath }] };
+    }
+    const message = (error as { reason?: string }).reason ?? (error as Error).message;
+    return { issues: [{ severity: 'error', path: [], message: `Invalid YAML: ${message}`, file: mark.name ?? yamlPath, line: mark.line + 1 }] };
+  }
 
-  const datasets: Record<string, DatasetConfigWithPaths> = {};
+  const raw = source.value as DatasetYamlConfig;
+  // Base configs are checked as part of each config that extends them
+  if (raw?.abstract === true) {
+    return { config: raw, issues: [] };
+  }
 
-  async function scanDirectory(basePath: string, relativePathPrefix: string) {
-    if (!existsSync(basePath)) {
-      return;
+  const issues: ConfigIssue[] = [...source.issues];
+  let config = raw;
+  let validate = true;
+  if (raw && typeof raw === 'object' && typeof raw.handlerModule === 'string') {
+    try {
+      const plugin = await loadHandlerModule(raw.handlerModule, dirname(yamlPath), raw.handler);
+      config = { ...raw, handler: plugin.name };
+    } catch (error) {
+      issues.push({ severity: 'error', path: ['handlerModule'], message: error instanceof Error ? error.message : String(error) });
+      validate = false;
     }
+  }
+  if (validate) {
+    issues.push(...validateDatasetConfig(config));
+  }
+
+  return {
+    config,
+    issues: issues
+      .map(issue => ({ ...issue, file: yamlPath, ...source.locate(issue.path) }))
+      .sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0)),
+  };
+}
+
+/**
+ * Read a scenario's config.yaml, failing with every config error found
+ */
+async function readYamlConfig(yamlPath: string): Promise<DatasetYamlConfig> {
+  const { config, issues } = await checkYamlConfig(yamlPath);
+  if (!config || issues.some(issue => issue.severity === 'error')) {
+    throw new ConfigError(issues);
+  }
+  return config;
+}
+
+/**
+ * A dataset name defined under more than one scenario root
+ */
+export interface DatasetConflict {
+  name: string;
+  kept: string;     // Scenario directory that was loaded (earliest root wins)
+  shadowed: string; // Scenario directory that was ignored
+}
+
+/**
+ * The structured-knowledge submodule's scenarios directory, found by walking up
+ * from this module to the package root (works from src/ and from the dist/ bundle)
+ */
+export function defaultScenarioRoot(): string {
+  let dir = dirname(fileURLToPath(import.meta.url));
+  while (!existsSync(join(dir, 'package.json')) && dirname(dir) !== dir) {
+    dir = dirname(dir);
+  }
+  return join(dir, 'structured-knowledge', 'scenarios');
+}
 
-    const entries = readdirSync(basePath, { withFileTypes: true });
+/**
+ * Scenario roots in search order: --scenarios, then SEMIONT_SCENARIOS_PATH, then
+ * structured-knowledge. Both lists are separated like PATH (":" on Unix).
+ */
+export function scenarioRoots(cliRoots?: string): string[] {
+  const split = (list: string | undefined) => (list ?? '').split(delimiter).filter(Boolean).map(root => resolve(root));
+  const explicit = [...split(cliRoots), ...split(process.env.SEMIONT_SCENARIOS_PATH)];
 
-    for (const entry of entries) {
-      if (!entry.isDirectory()) {
-        continue;
+  for (const root of explicit) {
+    if (!existsSync(root)) {
+      throw new Error(`Scenario directory not found: ${root}`);
+    }
+  }
+  return [...new Set([...explicit, defaultScenarioRoot()])];
+}
+
+/**
+ * Scenario directories (subdirectories with a config.yaml or config.ts) under
+ * each root and its private/ subdirectory, in search order
+ */
+export function findScenarioDirs(roots: string[]): string[] {
+  const dirs: string[] = [];
+  for (const basePath of roots.flatMap(root => [root, join(root, 'private')])) {
+    if (!existsSync(basePath)) {
+      continue;
+    }
+    for (const entry of readdirSync(basePath, { withFileTypes: true })) {
+      const scenarioDir = join(basePath, entry.name);
+      if (entry.isDirectory() && (existsSync(join(scenarioDir, 'config.yaml')) || existsSync(join(scenarioDir, 'config.ts')))) {
+        dirs.push(scenarioDir);
       }
+    }
+  }
+  return dirs;
+}
+
+/**
+ * Load all dataset configurations from the scenario roots.
+ * Each dataset should be in its own subdirectory with a config.yaml file; each
+ * root's private/ subdirectory is scanned too. State files are kept next to the
+ * config they belong to, namespaced by backend profile.
+ */
+export async function loadDatasets(
+  roots: string[],
+  profile?: string,
+): Promise<{ datasets: Record<string, DatasetConfigWithPaths>; conflicts: DatasetConflict[] }> {
+  const datasets: Record<string, DatasetConfigWithPaths> = {};
+  const conflicts: DatasetConflict[] = [];
+
+  function add(config: DatasetConfig, scenarioDir: string) {
+    const existing = datasets[config.name];
+    if (existing) {
+      conflicts.push({ name: config.name, kept: existing.scenarioDir, shadowed: scenarioDir });
+      return;
+    }
+    datasets[config.name] = {
+      ...config,
+      scenarioDir,
+      stateFile: stateFilePath(scenarioDir, profile),
+    };
+  }
+
+  for (const scenarioDir of findScenarioDirs(roots)) {
+    // Try YAML first (preferred), then fall back to TypeScript
+    const yamlPath = join(scenarioDir, 'config.yaml');
+    const tsPath = join(scenarioDir, 'config.ts');
 
-      // Try YAML first (preferred), then fall back to TypeScript
-      const yamlPath = join(basePath, entry.name, 'config.yaml');
-      const tsPath = join(basePath, entry.name, 'config.ts');
-
-      try {
-        if (existsSync(yamlPath)) {
-          // Load YAML config with handlers
-          const yamlContent = readFileSync(yamlPath, 'utf-8');
-          const yamlConfig = yaml.load(yamlContent) as DatasetYamlConfig;
-          const scenarioDir = join(basePath, entry.name);
-          const config = yamlToDatasetConfig(yamlConfig, scenarioDir);
-
-          const configWithPaths: DatasetConfigWithPaths = {
-            ...config,
-            stateFile: join(relativePathPrefix, entry.name, '.state.json'),
-          };
-
-          datasets[config.name] = configWithPaths;
-        } else if (existsSync(tsPath)) {
-          // Fall back to TypeScript config (legacy - dev mode only)
-          const module = await import(tsPath);
-          if (module.config && typeof module.config === 'object') {
-            const config = module.config as DatasetConfig;
-
-            const configWithPaths: DatasetConfigWithPaths = {
-              ...config,
-              stateFile: join(relativePathPrefix, entry.name, '.state.json'),
-            };
-
-            datasets[config.name] = configWithPaths;
-          }
+    try {
+      if (existsSync(yamlPath)) {
+        // Load YAML config with handlers (abstract configs only exist to be extended)
+        const yamlConfig = await readYamlConfig(yamlPath);
+        if (!yamlConfig.abstract) {
+          add(yamlToDatasetConfig(yamlConfig, scenarioDir), scenarioDir);
+        }
+      } else {
+        // Fall back to TypeScript config (legacy - dev mode only)
+        const module = await import(tsPath);
+        if (module.config && typeof module.config === 'object') {
+          add(module.config as DatasetConfig, scenarioDir);
         }
-      } catch (error) {
-        console.warn(`Warning: Could not load config from ${relativePathPrefix}/${entry.name}:`, error instanceof Error ? error.message : error);
       }
+    } catch (error) {
+      console.warn(`Warning: Could not load config from ${scenarioDir}:`, error instanceof Error ? error.message : error);
     }
   }
 
-  await scanDirectory(configDir, 'structured-knowledge/scenarios');
-  await scanDirectory(join(configDir, 'private'), 'structured-knowledge/scenarios/private');
+  return { datasets, conflicts };
+}
+
+/**
+ * Datasets available to commands, filled in by initDatasets before any command runs
+ */
+export const DATASETS: Record<string, DatasetConfigWithPaths> = {};
+
+// Scenario roots DATASETS was loaded from
+let loadedRoots: string[] = [];
+
+/**
+ * Scenario roots in use, in search order (set by initDatasets)
+ */
+export function activeScenarioRoots(): string[] {
+  return loadedRoots;
+}
+
+/**
+ * Load the datasets from the given roots into DATASETS, warning about shadowed names
+ */
+export async function initDatasets(roots: string[], profile?: string): Promise<DatasetConflict[]> {
+  const { datasets, conflicts } = await loadDatasets(roots, profile);
+  for (const name of Object.keys(DATASETS)) {
+    delete DATASETS[name];
+  }
+  Object.assign(DATASETS, datasets);
+  loadedRoots = roots;
 
-  return datasets;
+  for (const conflict of conflicts) {
+    console.warn(`Warning: Dataset "${conflict.name}" is defined in both ${conflict.kept} and ${conflict.shadowed}; using ${conflict.kept}`);
+  }
+  return conflicts;
 }
 
-// Load datasets at module initialization (top-level await)
-export const DATASETS = await loadDatasets();
+/**
+ * Rebuild a dataset with --set overrides applied on top of its config.yaml.
+ * The merged config is validated like the YAML itself; the overrides are kept
+ * on the dataset so every run records them.
+ */
+export async function applyOverrides(name: string, assignments: string[]): Promise<Record<string, unknown>> {
+  const dataset = DATASETS[name];
+  const yamlPath = join(dataset.scenarioDir, 'config.yaml');
+  if (!existsSync(yamlPath)) {
+    throw new Error(`--set needs a config.yaml, but ${name} uses a legacy config.ts (${dataset.scenarioDir})`);
+  }
+
+  const yamlConfig = await readYamlConfig(yamlPath);
+  const handler = HANDLERS[yamlConfig.handler];
+  if (!handler) {
+    throw new Error(`Unknown handler: ${yamlConfig.handler}. Available handlers: ${Object.keys(HANDLERS).join(', ')}`);
+  }
+  const overrides = parseOverrides(assignments, yamlConfig.handler, handler);
+
+  // Values must pass the same checks as in YAML (ranges, cross-field rules), not just have the right type
+  const errors = validateDatasetConfig({ ...yamlConfig, ...overrides }).filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+
+  DATASETS[name] = {
+    ...yamlToDatasetConfig({ ...yamlConfig, ...overrides }, dataset.scenarioDir),
+    scenarioDir: dataset.scenarioDir,
+    stateFile: dataset.stateFile,
+    overrides,
+  };
+  return overrides;
+}
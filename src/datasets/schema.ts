@@ -0,0 +1,487 @@
+/**
+ * Scenario Config Schema
+ *
+ * Validates a parsed config.yaml against the shape of DatasetYamlConfig (and
+ * the json-multi-doc phase configs), then cross-checks the references between
+ * its parts: phase refs, ToC and highlight phase targets, Handlebars templates
+ * and regular expressions. Issues carry the path of the offending value
+ * ("phases[2].refs.author.phase"); the loader adds the file and line.
+ */
+
+import Handlebars from 'handlebars';
+import type { ConfigFieldType } from '../handlers/types.js';
+import { HANDLERS } from '../handlers/index.js';
+import { CHUNK_STRATEGIES } from '../chunking.js';
+
+export type PathSegment = string | number;
+
+export interface ConfigIssue {
+  severity: 'error' | 'warning';
+  path: PathSegment[];
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+type Schema =
+  | { type: 'string'; values?: string[] }  // values: the allowed strings
+  | { type: 'boolean' }
+  | { type: 'number'; integer?: boolean; min?: number; max?: number }
+  | { type: 'array'; items: Schema }
+  | { type: 'record'; values: Schema }  // Object with arbitrary keys
+  | { type: 'object'; fields: Record<string, Field> };
+
+type Field = Schema & { required?: boolean };
+
+const string: Schema = { type: 'string' };
+const boolean: Schema = { type: 'boolean' };
+const stringList: Schema = { type: 'array', items: string };
+const positiveInt: Schema = { type: 'number', integer: true, min: 1 };
+
+function required(schema: Schema): Field {
+  return { ...schema, required: true };
+}
+
+const PHASE_REF: Schema = {
+  type: 'object',
+  fields: {
+    phase: required(string),
+    matchOn: required(string),
+    multi: boolean,
+  },
+};
+
+const PHASE_ANNOTATION: Schema = {
+  type: 'object',
+  fields: {
+    anchor: required(string),
+    ref: required(string),
+    multi: boolean,
+  },
+};
+
+const PHASE: Schema = {
+  type: 'object',
+  fields: {
+    name: required(string),
+    displayName: required(string),
+    source: required(string),
+    filter: string,
+    groupBy: stringList,
+    title: required(string),
+    language: string,
+    format: string,
+    entityTypes: required(stringList),
+    template: string,
+    binaryFile: {
+      type: 'object',
+      fields: { pathTemplate: required(string), format: required(string) },
+    },
+    refs: { type: 'record', values: PHASE_REF },
+    annotations: { type: 'array', items: PHASE_ANNOTATION },
+  },
+};
+
+const TOC_PHASE: Schema = {
+  type: 'object',
+  fields: {
+    name: required(string),
+    title: required(string),
+    phase: required(string),
+    entryTemplate: required(string),
+    entityTypes: required(stringList),
+  },
+};
+
+const MASTER_TOC: Schema = {
+  type: 'object',
+  fields: {
+    title: required(string),
+    entityTypes: required(stringList),
+    entries: required(stringList),
+  },
+};
+
+const HIGHLIGHT_PHASE: Schema = {
+  type: 'object',
+  fields: {
+    name: required(string),
+    displayName: required(string),
+    phase: required(string),
+    instructions: required(string),
+    density: { type: 'number', min: 1, max: 15 },
+    entityTypes: required(stringList),
+  },
+};
+
+/**
+ * Every field DatasetYamlConfig defines
+ */
+const DATASET_FIELDS: Record<string, Field> = {
+  name: required(string),
+  displayName: string,
+  emoji: string,
+  handler: string,
+  handlerModule: string,
+  tags: stringList,
+  abstract: boolean,
+  extends: string,  // Resolved while loading (yaml-source.ts); only reaches validation if not a path
+
+  url: string,
+  dataset: string,
+  count: positiveInt,
+  offset: { type: 'number', integer: true, min: 0 },
+  split: string,
+
+  shouldChunk: boolean,
+  chunkSize: positiveInt,
+  useSmartChunking: boolean,
+  targetTokens: positiveInt,
+  maxTokens: positiveInt,
+  overlapChars: positiveInt,
+  overlapParagraphs: positiveInt,
+  chunkStrategy: { type: 'string', values: [...CHUNK_STRATEGIES] },
+  headingDepth: { type: 'number', integer: true, min: 1, max: 6 },
+  entityTypes: stringList,
+  createTableOfContents: boolean,
+  tocTitle: string,
+  detectCitations: boolean,
+  concurrency: positiveInt,
+
+  extractionConfig: {
+    type: 'object',
+    fields: { startPattern: required(string), endMarker: required(string) },
+  },
+
+  cacheFile: string,
+  isMultiDocument: boolean,
+
+  jsonFile: string,
+  phases: { type: 'array', items: PHASE },
+  tocPhases: { type: 'array', items: TOC_PHASE },
+  masterToc: MASTER_TOC,
+
+  highlightPhases: { type: 'array', items: HIGHLIGHT_PHASE },
+};
+
+const FIELD_TYPE_SCHEMAS: Record<ConfigFieldType, Schema> = {
+  'string': string,
+  'number': { type: 'number' },
+  'boolean': boolean,
+  'string[]': stringList,
+};
+
+/**
+ * "phases[2].refs.author.phase"
+ */
+export function formatPath(path: PathSegment[]): string {
+  return path.reduce<string>((out, segment) =>
+    typeof segment === 'number' ? `${out}[${segment}]` : out ? `${out}.${segment}` : segment, '');
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'a mapping';
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Edit distance, for "did you mean" suggestions on misspelled field names
+ */
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function unknownFieldMessage(key: string, known: string[]): string {
+  const suggestion = known
+    .map(name => ({ name, distance: editDistance(key.toLowerCase(), name.toLowerCase()) }))
+    .filter(candidate => candidate.distance <= 2)
+    .sort((a, b) => a.distance - b.distance)[0];
+  return suggestion
+    ? `Unknown field "${key}" (did you mean "${suggestion.name}"?)`
+    : `Unknown field "${key}"`;
+}
+
+function checkSchema(value: unknown, schema: Schema, path: PathSegment[], issues: ConfigIssue[]): void {
+  const error = (message: string) => issues.push({ severity: 'error', path, message });
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        error(`Expected a string, got ${describeType(value)}`);
+      } else if (schema.values && !schema.values.includes(value)) {
+        error(`Expected one of ${schema.values.join(', ')}, got "${value}"`);
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') error(`Expected a boolean, got ${describeType(value)}`);
+      return;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        error(`Expected a number, got ${describeType(value)}`);
+      } else if (schema.integer && !Number.isInteger(value)) {
+        error(`Expected a whole number, got ${value}`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        error(`Must be at least ${schema.min}, got ${value}`);
+      } else if (schema.max !== undefined && value > schema.max) {
+        error(`Must be at most ${schema.max}, got ${value}`);
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        error(`Expected a list, got ${describeType(value)}`);
+        return;
+      }
+      value.forEach((item, i) => checkSchema(item, schema.items, [...path, i], issues));
+      return;
+    case 'record':
+      if (!isObject(value)) {
+        error(`Expected a mapping, got ${describeType(value)}`);
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        checkSchema(item, schema.values, [...path, key], issues);
+      }
+      return;
+    case 'object':
+      if (!isObject(value)) {
+        error(`Expected a mapping, got ${describeType(value)}`);
+        return;
+      }
+      checkFields(value, schema.fields, path, issues);
+      return;
+  }
+}
+
+function checkFields(value: Record<string, unknown>, fields: Record<string, Field>, path: PathSegment[], issues: ConfigIssue[]): void {
+  for (const [key, field] of Object.entries(fields)) {
+    if (value[key] === undefined || value[key] === null) {
+      if (field.required) {
+        issues.push({ severity: 'error', path, message: `Missing required field "${key}"` });
+      }
+      continue;
+    }
+    checkSchema(value[key], field, [...path, key], issues);
+  }
+  for (const key of Object.keys(value)) {
+    if (!(key in fields)) {
+      issues.push({ severity: 'error', path: [...path, key], message: unknownFieldMessage(key, Object.keys(fields)) });
+    }
+  }
+}
+
+function checkTemplate(template: unknown, path: PathSegment[], issues: ConfigIssue[]): void {
+  if (typeof template !== 'string') return;
+  try {
+    Handlebars.precompile(template, { noEscape: true });
+  } catch (error) {
+    // Handlebars reports "Parse error on line N:", the template excerpt, then what it expected
+    const lines = (error instanceof Error ? error.message : String(error)).split('\n').filter(Boolean);
+    const message = lines.length > 1 ? `${lines[0]} ${lines[lines.length - 1]}` : lines[0];
+    issues.push({ severity: 'error', path, message: `Invalid Handlebars template: ${message}` });
+  }
+}
+
+function checkRegex(pattern: unknown, path: PathSegment[], issues: ConfigIssue[]): void {
+  if (typeof pattern !== 'string') return;
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    issues.push({ severity: 'error', path, message: (error as Error).message });
+  }
+}
+
+/**
+ * Items of a list field that are mappings, with their index
+ */
+function entries(value: unknown): [Record<string, unknown>, number][] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item, i) => isObject(item) ? [[item, i] as [Record<string, unknown>, number]] : []);
+}
+
+function checkUniqueNames(list: unknown, field: string, issues: ConfigIssue[]): void {
+  const seen = new Set<unknown>();
+  for (const [item, i] of entries(list)) {
+    if (seen.has(item.name)) {
+      issues.push({ severity: 'error', path: [field, i, 'name'], message: `Duplicate name "${item.name}"` });
+    }
+    seen.add(item.name);
+  }
+}
+
+/**
+ * Checks that span several parts of the config
+ */
+function crossCheck(config: Record<string, unknown>, issues: ConfigIssue[]): void {
+  const error = (path: PathSegment[], message: string) => issues.push({ severity: 'error', path, message });
+  const warning = (path: PathSegment[], message: string) => issues.push({ severity: 'warning', path, message });
+
+  // Handler
+  if (config.handler === undefined && config.handlerModule === undefined) {
+    error([], 'Missing required field "handler" (or "handlerModule")');
+  } else if (typeof config.handler === 'string' && !HANDLERS[config.handler]) {
+    error(['handler'], `Unknown handler "${config.handler}". Available handlers: ${Object.keys(HANDLERS).join(', ')}`);
+  }
+  const handler = typeof config.handler === 'string' ? HANDLERS[config.handler] : undefined;
+  if (handler && !handler.customLoad) {
+    for (const field of ['phases', 'tocPhases', 'masterToc']) {
+      if (config[field] !== undefined) {
+        warning([field], `Ignored: the ${config.handler} handler does not run upload phases`);
+      }
+    }
+  }
+
+  // Upload phases: refs point at earlier phases, annotations at declared refs
+  const phases = entries(config.phases);
+  const phaseIndex = new Map(phases.map(([phase, i]) => [phase.name, i]));
+  checkUniqueNames(config.phases, 'phases', issues);
+
+  for (const [phase, i] of phases) {
+    const path: PathSegment[] = ['phases', i];
+    checkTemplate(phase.title, [...path, 'title'], issues);
+    checkTemplate(phase.language, [...path, 'language'], issues);
+    checkTemplate(phase.template, [...path, 'template'], issues);
+    if (isObject(phase.binaryFile)) {
+      checkTemplate(phase.binaryFile.pathTemplate, [...path, 'binaryFile', 'pathTemplate'], issues);
+    }
+
+    const refs = isObject(phase.refs) ? phase.refs : {};
+    for (const [refName, ref] of Object.entries(refs)) {
+      if (!isObject(ref) || typeof ref.phase !== 'string') continue;
+      const target = phaseIndex.get(ref.phase);
+      if (target === undefined) {
+        error([...path, 'refs', refName, 'phase'], `Unknown phase "${ref.phase}". Phases: ${[...phaseIndex.keys()].join(', ')}`);
+      } else if (target >= i) {
+        error([...path, 'refs', refName, 'phase'], `Phase "${ref.phase}" does not run before "${phase.name}"; refs can only point at earlier phases`);
+      }
+    }
+
+    for (const [annotation, j] of entries(phase.annotations)) {
+      checkTemplate(annotation.anchor, [...path, 'annotations', j, 'anchor'], issues);
+      if (typeof annotation.ref === 'string' && !(annotation.ref in refs)) {
+        const declared = Object.keys(refs);
+        error([...path, 'annotations', j, 'ref'], `Unknown ref "${annotation.ref}". ${declared.length ? `Refs of this phase: ${declared.join(', ')}` : 'This phase declares no refs'}`);
+      }
+    }
+  }
+
+  // ToC phases and highlight phases target upload phases
+  checkUniqueNames(config.tocPhases, 'tocPhases', issues);
+  for (const [toc, i] of entries(config.tocPhases)) {
+    checkTemplate(toc.entryTemplate, ['tocPhases', i, 'entryTemplate'], issues);
+    if (typeof toc.phase === 'string' && !phaseIndex.has(toc.phase)) {
+      error(['tocPhases', i, 'phase'], `Unknown phase "${toc.phase}". Phases: ${[...phaseIndex.keys()].join(', ') || '(none)'}`);
+    }
+  }
+
+  checkUniqueNames(config.highlightPhases, 'highlightPhases', issues);
+  for (const [highlight, i] of entries(config.highlightPhases)) {
+    if (typeof highlight.phase === 'string' && !phaseIndex.has(highlight.phase)) {
+      error(['highlightPhases', i, 'phase'], phases.length
+        ? `Unknown phase "${highlight.phase}". Phases: ${[...phaseIndex.keys()].join(', ')}`
+        : `Highlight phases annotate the resources of an upload phase, but this dataset has no phases`);
+    }
+  }
+
+  // Master ToC entries are matched to ToC phases by position
+  if (isObject(config.masterToc) && Array.isArray(config.masterToc.entries)) {
+    const tocCount = Array.isArray(config.tocPhases) ? config.tocPhases.length : 0;
+    if (config.masterToc.entries.length !== tocCount) {
+      warning(['masterToc', 'entries'], `${config.masterToc.entries.length} entries but ${tocCount} ToC phases; entries are linked to ToC phases by position`);
+    }
+  }
+
+  // Token budgets replace the character-based chunk settings
+  if (typeof config.targetTokens === 'number') {
+    if (!config.shouldChunk) {
+      warning(['targetTokens'], 'Ignored: shouldChunk is not enabled');
+    }
+    for (const field of ['chunkSize', 'useSmartChunking']) {
+      if (config[field] !== undefined) {
+        warning([field], 'Ignored: targetTokens selects token-budgeted chunking');
+      }
+    }
+    if (typeof config.maxTokens === 'number' && config.maxTokens < config.targetTokens) {
+      error(['maxTokens'], `Must be at least targetTokens (${config.targetTokens}), got ${config.maxTokens}`);
+    }
+  } else if (config.maxTokens !== undefined) {
+    warning(['maxTokens'], 'Ignored: maxTokens only applies with targetTokens');
+  }
+
+  if (config.headingDepth !== undefined && config.chunkStrategy !== 'markdown') {
+    warning(['headingDepth'], 'Ignored: headingDepth only applies with chunkStrategy: markdown');
+  }
+  if (config.overlapChars !== undefined && config.overlapParagraphs !== undefined) {
+    error(['overlapParagraphs'], 'Set either overlapChars or overlapParagraphs, not both');
+  }
+  for (const field of ['chunkStrategy', 'overlapChars', 'overlapParagraphs']) {
+    if (config[field] !== undefined && !config.shouldChunk) {
+      warning([field], 'Ignored: shouldChunk is not enabled');
+    }
+  }
+  if (config.isMultiDocument === true && config.shouldChunk === true && (config.chunkStrategy ?? 'size') === 'size') {
+    warning(['shouldChunk'], 'Ignored: multi-document datasets are only split by chunkStrategy markdown or legal-opinion');
+  }
+
+  if (isObject(config.extractionConfig)) {
+    checkRegex(config.extractionConfig.startPattern, ['extractionConfig', 'startPattern'], issues);
+  }
+}
+
+/**
+ * Validate a parsed config.yaml. Fields declared by the dataset's handler (see
+ * DatasetHandler.fields) are accepted at the top level in addition to the
+ * DatasetYamlConfig fields.
+ */
+export function validateDatasetConfig(config: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  if (!isObject(config)) {
+    issues.push({ severity: 'error', path: [], message: `Expected a mapping of config fields, got ${describeType(config)}` });
+    return issues;
+  }
+
+  const handlerFields = typeof config.handler === 'string' ? HANDLERS[config.handler]?.fields ?? {} : {};
+  const fields: Record<string, Field> = { ...DATASET_FIELDS };
+  for (const [key, type] of Object.entries(handlerFields)) {
+    fields[key] ??= FIELD_TYPE_SCHEMAS[type];
+  }
+
+  checkFields(config, fields, [], issues);
+  crossCheck(config, issues);
+  return issues;
+}
+
+/**
+ * "config.yaml:12: phases[2].refs.author.phase: Unknown phase ..."
+ */
+export function formatIssue(issue: ConfigIssue): string {
+  const location = issue.file ? `${issue.file}${issue.line ? `:${issue.line}` : ''}: ` : '';
+  const path = issue.path.length ? `${formatPath(issue.path)}: ` : '';
+  return `${location}${path}${issue.message}`;
+}
+
+/**
+ * A config.yaml that failed validation
+ */
+export class ConfigError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    super(`${errors.length} config error${errors.length === 1 ? '' : 's'}:\n${errors.map(issue => `  ${formatIssue(issue)}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Scenario YAML Loading
+ *
+ * Reads a config.yaml and resolves the composition features scenarios use to
+ * share configuration between variants:
+ *
+ *   extends: ../base/config.yaml     # deep-merge this file over a base config
+ *   phases: !include phases.yaml     # splice in another YAML file (or a text file, as a string)
+ *   jsonFile: ${DATA_FILE:-data.json} # environment variable, with an optional default
+ *
+ * Every mapping and list remembers the file and line it came from, so config
+ * issues can point at the offending line even when it is in a base or included file.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, extname, resolve } from 'node:path';
+import * as yaml from 'js-yaml';
+import type { ConfigIssue, PathSegment } from './schema.js';
+
+export interface SourceLocation {
+  file: string;
+  line: number; // 1-based
+}
+
+export interface YamlSource {
+  value: unknown;
+  issues: ConfigIssue[]; // Environment variables that could not be resolved
+  locate: (path: PathSegment[]) => SourceLocation | undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep merge for extends: mappings merge key by key, anything else (including
+ * lists) in the extending config replaces the base value
+ */
+function deepMerge(base: unknown, override: unknown, origins: WeakMap<object, SourceLocation[]>): unknown {
+  if (!isObject(base) || !isObject(override)) {
+    return override;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = key in base ? deepMerge(base[key], value, origins) : value;
+  }
+  // Look up keys in the extending file first, then in the base
+  origins.set(merged, [...(origins.get(override) ?? []), ...(origins.get(base) ?? [])]);
+  return merged;
+}
+
+// "${NAME}", "${NAME:-default}"; "$${...}" is a literal "${...}"
+const ENV_REFERENCE = /\$?\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Replace ${NAME} and ${NAME:-default} in a string. A value that is nothing but
+ * one reference is parsed as a YAML scalar, so "${CHUNK_SIZE:-4000}" is a number.
+ */
+function interpolate(text: string, missing: (name: string) => void): unknown {
+  let whole = false;
+  const result = text.replace(ENV_REFERENCE, (match, name: string, fallback: string | undefined) => {
+    if (match.startsWith('$$')) {
+      return match.slice(1);
+    }
+    whole = match === text;
+    const value = process.env[name];
+    if (value !== undefined && value !== '') {
+      return value;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    missing(name);
+    return '';
+  });
+  if (!whole) {
+    return result;
+  }
+  const scalar = yaml.load(result);
+  return typeof scalar === 'number' || typeof scalar === 'boolean' ? scalar : result;
+}
+
+/**
+ * Interpolate environment variables in every string of a parsed config, in place
+ * (so mappings and lists keep their recorded locations)
+ */
+function interpolateAll(value: unknown, path: PathSegment[], issues: ConfigIssue[]): unknown {
+  if (typeof value === 'string') {
+    return interpolate(value, name => issues.push({
+      severity: 'error',
+      path,
+      message: `Environment variable ${name} is not set (use \${${name}:-default} for a default)`,
+    }));
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => { value[i] = interpolateAll(item, [...path, i], issues); });
+  } else if (isObject(value)) {
+    for (const key of Object.keys(value)) {
+      value[key] = interpolateAll(value[key], [...path, key], issues);
+    }
+  }
+  return value;
+}
+
+/**
+ * Load a scenario config.yaml with its includes, base configs and environment
+ * variables resolved. Throws js-yaml's YAMLException (with `mark`) on syntax
+ * errors, and an Error for missing or circular includes and base configs.
+ */
+export function loadYamlSource(file: string): YamlSource {
+  // Files each mapping/list was read from; merged mappings list the extending file first
+  const origins = new WeakMap<object, SourceLocation[]>();
+  const texts = new Map<string, string[]>();
+
+  function parseFile(path: string, chain: string[]): unknown {
+    if (chain.includes(path)) {
+      throw new Error(`Circular extends/!include: ${[...chain, path].join(' → ')}`);
+    }
+    if (!existsSync(path)) {
+      throw new Error(`${chain.length ? `${chain[chain.length - 1]}: ` : ''}file not found: ${path}`);
+    }
+    const text = readFileSync(path, 'utf-8');
+    texts.set(path, text.split('\n'));
+
+    // !include resolves relative to the file it appears in
+    const include = new yaml.Type('!include', {
+      kind: 'scalar',
+      resolve: (data: unknown) => typeof data === 'string',
+      construct: (data: string) => {
+        const target = resolve(dirname(path), data);
+        if (['.yaml', '.yml'].includes(extname(target))) {
+          return parseFile(target, [...chain, path]);
+        }
+        if (!existsSync(target)) {
+          throw new Error(`${path}: file not found: ${target}`);
+        }
+        return readFileSync(target, 'utf-8');
+      },
+    });
+
+    const open: number[] = [];
+    const value = yaml.load(text, {
+      filename: path,
+      schema: yaml.DEFAULT_SCHEMA.extend([include]),
+      listener(event, state) {
+        if (event === 'open') {
+          open.push(state.line);
+          return;
+        }
+        const line = open.pop()!;
+        // Values spliced in by !include already point at their own file
+        if (typeof state.result === 'object' && state.result !== null && !origins.has(state.result)) {
+          origins.set(state.result, [{ file: path, line: line + 1 }]);
+        }
+      },
+    });
+
+    // extends: deep-merge this file over its base (which may extend another)
+    if (isObject(value) && typeof value.extends === 'string') {
+      const { extends: basePath, ...own } = value;
+      origins.set(own, origins.get(value) ?? []);
+      const base = parseFile(resolve(dirname(path), basePath), [...chain, path]);
+      // A config extending an abstract base is a real dataset
+      if (isObject(base)) {
+        delete base.abstract;
+      }
+      return deepMerge(base, own, origins);
+    }
+    return value;
+  }
+
+  /**
+   * First line at or after a location that defines `key` (as "key:" or "- key:")
+   */
+  function findKey(key: string, from: SourceLocation): SourceLocation | undefined {
+    const pattern = new RegExp(`^\\s*(-\\s+)?["']?${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["']?\\s*:`);
+    const lines = texts.get(from.file) ?? [];
+    for (let i = from.line - 1; i < lines.length; i++) {
+      if (pattern.test(lines[i])) return { file: from.file, line: i + 1 };
+    }
+    return undefined;
+  }
+
+  const value = parseFile(resolve(file), []);
+  const issues: ConfigIssue[] = [];
+  interpolateAll(value, [], issues);
+
+  function locate(path: PathSegment[]): SourceLocation | undefined {
+    let current: unknown = value;
+    let candidates = typeof value === 'object' && value !== null ? origins.get(value) ?? [] : [];
+
+    for (const segment of path) {
+      if (typeof current !== 'object' || current === null) break;
+      current = (current as Record<PathSegment, unknown>)[segment];
+
+      const own = typeof current === 'object' && current !== null ? origins.get(current) : undefined;
+      if (own?.length) {
+        candidates = own;
+      } else if (typeof segment === 'string') {
+        // Scalars (and missing keys) have no node of their own; look for the key
+        const found = candidates.map(location => findKey(segment, location)).find(Boolean);
+        if (found) candidates = [found];
+      }
+    }
+    return candidates[0];
+  }
+
+  return { value, issues, locate };
+}
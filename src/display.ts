@@ -2,60 +2,98 @@
  * Display and Output Formatting
  *
  * Console output utilities for progress tracking and results display.
+ * Every line is also logged (see logger.ts), with its message as the entry.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import type { ResourceId } from '@semiont/core';
 import type { ChunkInfo } from './chunking';
+import { log, setLogPass, type LogLevel } from './logger';
+
+// When true (--json), pretty output is suppressed so stdout carries only the result document
+let silent = false;
+
+/**
+ * Suppress (or restore) all pretty output written by this module
+ */
+export function setSilent(value: boolean): void {
+  silent = value;
+}
+
+// Silence for one task among several running at once (batch --parallel); overrides setSilent inside it
+const silenceScope = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run a function with its output silenced (or not), without affecting tasks running alongside it
+ */
+export function withSilence<T>(value: boolean, fn: () => Promise<T>): Promise<T> {
+  return silenceScope.run(value, fn);
+}
+
+/**
+ * Log a line; the console shows it as given unless output is silenced
+ */
+function write(line: string = '', level: LogLevel = 'info', message: string = line.trim(), fields?: Record<string, unknown>): void {
+  log(level, message, fields, (silenceScope.getStore() ?? silent) ? undefined : line);
+}
+
+/**
+ * Prints a plain line of output
+ */
+export function printLine(message: string = ''): void {
+  write(message);
+}
 
 /**
  * Prints a section header with emoji and separator line
  */
 export function printSectionHeader(emoji: string, passNumber: number, title: string): void {
-  console.log(`\n${emoji} PASS ${passNumber}: ${title}`);
-  console.log('━'.repeat(60));
+  setLogPass(title);
+  write(`\n${emoji} PASS ${passNumber}: ${title}`, 'info', `PASS ${passNumber}: ${title}`);
+  write('━'.repeat(60), 'info', '');
 }
 
 /**
  * Prints a main header with double-line separator
  */
 export function printMainHeader(emoji: string, title: string): void {
-  console.log(`\n${emoji} ${title}`);
-  console.log('═'.repeat(60));
+  write(`\n${emoji} ${title}`, 'info', title);
+  write('═'.repeat(60), 'info', '');
 }
 
 /**
  * Prints a success message with checkmark
  */
 export function printSuccess(message: string, indent: number = 3): void {
-  console.log(`${' '.repeat(indent)}✅ ${message}`);
+  write(`${' '.repeat(indent)}✅ ${message}`, 'info', message);
 }
 
 /**
  * Prints an info message
  */
 export function printInfo(message: string, indent: number = 3): void {
-  console.log(`${' '.repeat(indent)}${message}`);
+  write(`${' '.repeat(indent)}${message}`);
 }
 
 /**
  * Prints a warning message
  */
 export function printWarning(message: string, indent: number = 3): void {
-  console.log(`${' '.repeat(indent)}⚠️  ${message}`);
+  write(`${' '.repeat(indent)}⚠️  ${message}`, 'warn', message);
 }
 
 /**
  * Prints a filesystem path with folder emoji
  */
 export function printFilesystemPath(label: string, path: string, indent: number = 7): void {
-  console.log(`${' '.repeat(indent)}📁 ${label}: ${path}`);
+  write(`${' '.repeat(indent)}📁 ${label}: ${path}`, 'info', `${label}: ${path}`);
 }
 
 /**
  * Prints progress for a batch operation
  */
 export function printBatchProgress(current: number, total: number, message: string): void {
-  console.log(`   [${current}/${total}] ${message}`);
+  write(`   [${current}/${total}] ${message}`, 'debug', message, { current, total });
 }
 
 /**
@@ -69,8 +107,9 @@ export function printDownloadStats(totalChars: number, extractedChars: number):
 /**
  * Prints chunking statistics
  */
-export function printChunkingStats(numChunks: number, avgSize: number): void {
-  printSuccess(`Created ${numChunks} chunks (avg ${avgSize} chars)`);
+export function printChunkingStats(numChunks: number, avgSize: number, avgTokens?: number): void {
+  const tokens = avgTokens !== undefined ? `, ~${avgTokens} tokens` : '';
+  printSuccess(`Created ${numChunks} chunks (avg ${avgSize} chars${tokens})`);
 }
 
 /**
@@ -86,11 +125,11 @@ export function printAnnotationCreated(fullAnnotationId: string): void {
  * Prints event history breakdown by type
  */
 export function printEventBreakdown(eventsByType: Record<string, number>): void {
-  console.log('   Event breakdown:');
+  write('   Event breakdown:');
   Object.entries(eventsByType).forEach(([type, count]) => {
-    console.log(`     • ${type}: ${count}`);
+    write(`     • ${type}: ${count}`);
   });
-  console.log('');
+  write();
 }
 
 /**
@@ -104,17 +143,17 @@ export interface EventDetails {
 }
 
 export function printEvent(event: EventDetails): void {
-  console.log(`     [${event.eventNum}] seq=${event.sequenceNumber} - ${event.type}`);
+  write(`     [${event.eventNum}] seq=${event.sequenceNumber} - ${event.type}`);
 
   if (event.type === 'annotation.added' && event.payload && typeof event.payload === 'object' && event.payload !== null) {
     const payload = event.payload as { exact?: string; position?: { offset?: number } };
     const exact = payload.exact || 'unknown';
     const offset = payload.position?.offset ?? '?';
-    console.log(`         → Created: "${exact}" at offset ${offset}`);
+    write(`         → Created: "${exact}" at offset ${offset}`);
   } else if (event.type === 'annotation.body.updated' && event.payload && typeof event.payload === 'object' && event.payload !== null) {
     const payload = event.payload as { targetDocumentId?: string };
     const targetId = payload.targetDocumentId || 'unknown';
-    console.log(`         → Linked to: ${targetId.substring(0, 40)}...`);
+    write(`         → Linked to: ${targetId.substring(0, 40)}...`);
   }
 }
 
@@ -132,18 +171,18 @@ export interface ResultsSummary {
 export function printResults(summary: ResultsSummary): void {
   printSectionHeader('✨', 7, 'Results');
 
-  console.log('\n📋 Table of Contents:');
-  console.log(`   ${summary.frontendUrl}/en/know/resource/${summary.tocId}`);
+  write('\n📋 Table of Contents:');
+  write(`   ${summary.frontendUrl}/en/know/resource/${summary.tocId}`);
 
-  console.log('\n📚 Document Chunks:');
+  write('\n📚 Document Chunks:');
   summary.chunkIds.forEach((id, index) => {
-    console.log(`   Part ${index + 1}: ${summary.frontendUrl}/en/know/resource/${id}`);
+    write(`   Part ${index + 1}: ${summary.frontendUrl}/en/know/resource/${id}`);
   });
 
-  console.log('\n📊 Summary:');
-  console.log(`   Total chunks: ${summary.chunkIds.length}`);
-  console.log(`   Annotations created: ${summary.totalCount}`);
-  console.log(`   Annotations linked: ${summary.linkedCount}`);
+  write('\n📊 Summary:');
+  write(`   Total chunks: ${summary.chunkIds.length}`);
+  write(`   Annotations created: ${summary.totalCount}`);
+  write(`   Annotations linked: ${summary.linkedCount}`);
 
   if (summary.linkedCount < summary.totalCount) {
     const pending = summary.totalCount - summary.linkedCount;
@@ -155,8 +194,8 @@ export function printResults(summary: ResultsSummary): void {
  * Prints completion message
  */
 export function printCompletion(): void {
-  console.log('\n✅ Complete!');
-  console.log('═'.repeat(60) + '\n');
+  write('\n✅ Complete!', 'info', 'Complete');
+  write('═'.repeat(60) + '\n', 'info', '');
 }
 
 /**
@@ -164,5 +203,6 @@ export function printCompletion(): void {
  */
 export function printError(error: Error | string): void {
   const message = error instanceof Error ? error.message : String(error);
-  console.error('\n❌ Error:', message);
+  // Shown even with --json: stdout carries the result, errors go to stderr
+  log('error', message, error instanceof Error ? { stack: error.stack } : {}, `\n❌ Error: ${message}`);
 }
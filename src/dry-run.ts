@@ -0,0 +1,238 @@
+/**
+ * Dry-Run Client
+ *
+ * Stands in for SemiontApiClient during `load --dry-run`. Every call the load
+ * workflow would make is written to a local output directory instead of the
+ * backend: resource contents as files, annotations with their selectors, and a
+ * manifest listing each API call in order. Returned IDs are placeholders.
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { SemiontApiClient } from '@semiont/api-client';
+import type { AnnotationId, ResourceId } from '@semiont/core';
+
+/**
+ * One API call that would have been made
+ */
+export interface PlannedCall {
+  seq: number;
+  method: 'createResource' | 'createAnnotation' | 'updateAnnotationBody' | 'updateResource';
+  resourceId: ResourceId;
+  annotationId?: AnnotationId;
+  name?: string;
+  format?: string;
+  language?: string;
+  entityTypes?: string[];
+  bytes?: number;
+  file?: string;
+  body?: unknown;
+}
+
+/**
+ * An annotation target as it would be created, checked against the planned resource content
+ */
+export interface PlannedAnnotation {
+  annotationId: AnnotationId;
+  resourceId: ResourceId;
+  resourceFile?: string;
+  motivation: string;
+  start?: number;
+  end?: number;
+  exact?: string;
+  textAtOffsets?: string;
+  selectorMatches?: boolean;
+  body: unknown[];
+}
+
+interface PlannedResource {
+  file: string;
+  text?: string;
+}
+
+interface Selector {
+  type: string;
+  start?: number;
+  end?: number;
+  exact?: string;
+}
+
+interface ResourceRequest {
+  name: string;
+  file: Buffer;
+  format: string;
+  entityTypes?: string[];
+  language?: string;
+}
+
+interface AnnotationRequest {
+  motivation: string;
+  target: { source: string; selector: Selector[] };
+  body: unknown[];
+}
+
+interface BodyUpdateRequest {
+  operations: Array<{ op: string; item?: unknown; oldItem?: unknown; newItem?: unknown }>;
+}
+
+export const EXTENSIONS: Record<string, string> = {
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+};
+
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60) || 'resource';
+}
+
+export class DryRunClient {
+  private calls: PlannedCall[] = [];
+  private annotations = new Map<AnnotationId, PlannedAnnotation>();
+  private resources = new Map<ResourceId, PlannedResource>();
+  private resourceCount = 0;
+  private annotationCount = 0;
+
+  constructor(private outputDir: string) {
+    // Start from an empty resources directory so files from earlier dry runs don't linger
+    rmSync(join(outputDir, 'resources'), { recursive: true, force: true });
+    mkdirSync(join(outputDir, 'resources'), { recursive: true });
+  }
+
+  /**
+   * Present this recorder where the load workflow expects an API client
+   */
+  asClient(): SemiontApiClient {
+    return this as unknown as SemiontApiClient;
+  }
+
+  async createResource(request: ResourceRequest, _options?: unknown): Promise<{ resourceId: ResourceId }> {
+    const resourceId = `dry-run-resource-${String(++this.resourceCount).padStart(4, '0')}` as ResourceId;
+    const ext = EXTENSIONS[request.format] ?? 'bin';
+    const file = join('resources', `${String(this.resourceCount).padStart(4, '0')}-${slugify(request.name)}.${ext}`);
+    writeFileSync(join(this.outputDir, file), request.file);
+
+    const isText = request.format.startsWith('text/');
+    this.resources.set(resourceId, { file, text: isText ? request.file.toString('utf-8') : undefined });
+    this.record({
+      method: 'createResource',
+      resourceId,
+      name: request.name,
+      format: request.format,
+      language: request.language,
+      entityTypes: request.entityTypes,
+      bytes: request.file.length,
+      file,
+    });
+    return { resourceId };
+  }
+
+  async createAnnotation(resourceId: ResourceId, data: AnnotationRequest, _options?: unknown): Promise<{ annotationId: AnnotationId }> {
+    const annotationId = `dry-run-annotation-${String(++this.annotationCount).padStart(4, '0')}` as AnnotationId;
+    const position = data.target.selector.find(s => s.type === 'TextPositionSelector');
+    const quote = data.target.selector.find(s => s.type === 'TextQuoteSelector');
+    const resource = this.resources.get(resourceId);
+
+    const annotation: PlannedAnnotation = {
+      annotationId,
+      resourceId,
+      resourceFile: resource?.file,
+      motivation: data.motivation,
+      start: position?.start,
+      end: position?.end,
+      exact: quote?.exact,
+      body: [...data.body],
+    };
+
+    // Check the selector offsets against the planned content
+    if (resource?.text !== undefined && position?.start !== undefined && position.end !== undefined) {
+      annotation.textAtOffsets = resource.text.slice(position.start, position.end);
+      annotation.selectorMatches = quote?.exact === undefined || annotation.textAtOffsets === quote.exact;
+    }
+
+    this.annotations.set(annotationId, annotation);
+    this.record({ method: 'createAnnotation', resourceId, annotationId, body: data });
+    return { annotationId };
+  }
+
+  async updateAnnotationBody(
+    resourceId: ResourceId,
+    annotationId: AnnotationId,
+    data: BodyUpdateRequest,
+    _options?: unknown,
+  ): Promise<void> {
+    const annotation = this.annotations.get(annotationId);
+    if (annotation) {
+      for (const operation of data.operations) {
+        if (operation.op === 'add' && operation.item) {
+          annotation.body.push(operation.item);
+        } else if (operation.op === 'replace' && operation.newItem) {
+          const oldSource = (operation.oldItem as { source?: string } | undefined)?.source;
+          const index = annotation.body.findIndex(item => (item as { source?: string }).source === oldSource);
+          annotation.body.splice(index === -1 ? annotation.body.length : index, 1, operation.newItem);
+        }
+      }
+    }
+    this.record({ method: 'updateAnnotationBody', resourceId, annotationId, body: data });
+  }
+
+  async updateResource(resourceId: ResourceId, data: { archived?: boolean }, _options?: unknown): Promise<void> {
+    this.record({ method: 'updateResource', resourceId, body: data });
+  }
+
+  /**
+   * Synthesize an event history from the recorded calls, shaped like the backend's
+   */
+  async getResourceEvents(resourceId: ResourceId, _options?: unknown): Promise<{ events: unknown[] }> {
+    const events = this.calls
+      .filter(call => call.resourceId === resourceId)
+      .map((call, index) => {
+        const annotation = call.annotationId ? this.annotations.get(call.annotationId) : undefined;
+        const type = call.method === 'createResource' ? 'resource.created'
+          : call.method === 'createAnnotation' ? 'annotation.added'
+          : call.method === 'updateResource' ? 'resource.archived'
+          : 'annotation.body.updated';
+        const payload = call.method === 'createAnnotation'
+          ? { exact: annotation?.exact, position: { offset: annotation?.start } }
+          : call.method === 'updateAnnotationBody'
+            ? { targetDocumentId: (annotation?.body.at(-1) as { source?: string } | undefined)?.source }
+            : { name: call.name };
+        return { event: { type, payload }, metadata: { sequenceNumber: index + 1 } };
+      });
+    return { events };
+  }
+
+  private record(call: Omit<PlannedCall, 'seq'>): void {
+    this.calls.push({ seq: this.calls.length + 1, ...call });
+  }
+
+  /**
+   * Write manifest.json (API calls in order) and annotations.json (selectors with offsets)
+   */
+  writeManifest(): { manifestPath: string; resources: number; annotations: number; calls: number; mismatched: number } {
+    const annotations = [...this.annotations.values()];
+    const mismatched = annotations.filter(a => a.selectorMatches === false).length;
+
+    const manifestPath = join(this.outputDir, 'manifest.json');
+    writeFileSync(manifestPath, JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      totals: {
+        calls: this.calls.length,
+        resources: this.resources.size,
+        annotations: annotations.length,
+        mismatchedSelectors: mismatched,
+      },
+      calls: this.calls,
+    }, null, 2));
+    writeFileSync(join(this.outputDir, 'annotations.json'), JSON.stringify(annotations, null, 2));
+
+    return {
+      manifestPath,
+      resources: this.resources.size,
+      annotations: annotations.length,
+      calls: this.calls.length,
+      mismatched,
+    };
+  }
+}
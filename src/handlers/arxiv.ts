@@ -10,6 +10,8 @@ import { fetchArxivPaper, formatArxivPaper } from '../arxiv.js';
 import { printInfo, printSuccess } from '../display.js';
 
 export const arxivHandler: DatasetHandler = {
+  fields: { dataset: 'string' },
+
   download: async (config: DatasetYamlConfig) => {
     if (!config.dataset) {
       throw new Error('ArXiv handler requires dataset (arxiv ID) in config');
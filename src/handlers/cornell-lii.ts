@@ -10,6 +10,8 @@ import { downloadCornellLII, formatLegalOpinion } from '../legal-text.js';
 import { printInfo, printSuccess } from '../display.js';
 
 export const cornellLiiHandler: DatasetHandler = {
+  fields: { url: 'string' },
+
   download: async (config: DatasetYamlConfig) => {
     if (!config.url) {
       throw new Error('Cornell LII handler requires url in config');
@@ -10,6 +10,8 @@ import { downloadText, extractSection } from '../chunking.js';
 import { printInfo, printSuccess } from '../display.js';
 
 export const gutenbergHandler: DatasetHandler = {
+  fields: { url: 'string' },
+
   download: async (config: DatasetYamlConfig) => {
     if (!config.url) {
       throw new Error('Gutenberg handler requires url in config');
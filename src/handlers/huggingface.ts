@@ -7,10 +7,12 @@
 import { writeFileSync, readFileSync } from 'node:fs';
 import type { DatasetHandler, DatasetYamlConfig } from './types.js';
 import type { DocumentInfo } from '../types.js';
-import { fetchFirstNDocuments, convertLegalCaseDocument } from '../huggingface.js';
+import { fetchHuggingFaceDataset, convertLegalCaseDocument } from '../huggingface.js';
 import { printInfo, printSuccess } from '../display.js';
 
 export const huggingfaceHandler: DatasetHandler = {
+  fields: { dataset: 'string', count: 'number', offset: 'number', split: 'string' },
+
   download: async (config: DatasetYamlConfig) => {
     if (!config.dataset) {
       throw new Error('HuggingFace handler requires dataset in config');
@@ -20,8 +22,14 @@ export const huggingfaceHandler: DatasetHandler = {
     }
 
     const count = config.count || 10;
-    printInfo(`Fetching ${count} documents from ${config.dataset}...`);
-    const rawDocs = await fetchFirstNDocuments(config.dataset, count);
+    const offset = config.offset || 0;
+    printInfo(`Fetching ${count} documents from ${config.dataset}${offset ? ` starting at row ${offset}` : ''}...`);
+    const rawDocs = await fetchHuggingFaceDataset({
+      dataset: config.dataset,
+      split: config.split,
+      offset,
+      length: count,
+    });
     const documents = rawDocs.map((doc, i) => convertLegalCaseDocument(doc, i));
     printSuccess(`Fetched ${documents.length} legal documents`);
 
@@ -7,6 +7,9 @@
  * URIs from earlier phases. ToC phases create table-of-contents resources with
  * annotation links. A master ToC links to all sub-ToCs.
  *
+ * With an incremental baseline, unchanged items keep their resources and
+ * annotations, and a ToC whose entries are unchanged is kept as is.
+ *
  * All scenario-specific logic lives in config.yaml — this handler is generic.
  */
 
@@ -21,13 +24,21 @@ import type {
   DatasetYamlConfig,
   PhaseConfig,
   PhaseAnnotation,
+  CustomLoadOptions,
   CustomLoadResult,
 } from './types.js';
 import {
   uploadDocuments,
   createDocumentTableOfContents,
+  type UploadFailure,
+  type TableOfContentsReference,
 } from '../resources.js';
 import { createStubReferences, linkReferences } from '../annotations.js';
+import { indexUploads, scopeIndex } from '../incremental.js';
+import type { LinkRef, TocRecord } from '../state.js';
+import { isStepDone, markStepDone } from '../checkpoint.js';
+import { mapWithConcurrency, resolveConcurrency, type Throttle } from '../concurrency.js';
+import { apiCall } from '../api-call.js';
 import {
   printSectionHeader,
   printInfo,
@@ -193,8 +204,9 @@ async function createPhaseAnnotations(
   renderedContent: string,
   client: SemiontApiClient,
   auth: AccessToken,
-): Promise<number> {
-  let created = 0;
+  throttle: Throttle,
+): Promise<LinkRef[]> {
+  const links: LinkRef[] = [];
 
   for (const ann of annotations) {
     if (ann.multi) {
@@ -207,8 +219,7 @@ async function createPhaseAnnotations(
         const pos = findTextPosition(renderedContent, anchorText);
         if (!pos) continue; // anchor empty or not found — skip silently
 
-        await createAndLinkAnnotation(resourceId, anchorText, pos.start, pos.end, targetUri, client, auth);
-        created++;
+        links.push(await createAndLinkAnnotation(resourceId, anchorText, pos.start, pos.end, targetUri, client, auth, throttle));
       }
     } else {
       // Single annotation
@@ -219,12 +230,11 @@ async function createPhaseAnnotations(
       const pos = findTextPosition(renderedContent, anchorText);
       if (!pos) continue; // anchor empty or not found — skip silently
 
-      await createAndLinkAnnotation(resourceId, anchorText, pos.start, pos.end, targetUri, client, auth);
-      created++;
+      links.push(await createAndLinkAnnotation(resourceId, anchorText, pos.start, pos.end, targetUri, client, auth, throttle));
     }
   }
 
-  return created;
+  return links;
 }
 
 /**
@@ -241,6 +251,7 @@ function findTextPosition(content: string, text: string): { start: number; end:
 /**
  * Create a reference annotation on a resource and link it to a target resource.
  * Two-step: create stub annotation with text selectors, then add SpecificResource body.
+ * Returns the link so an incremental load can re-point it if the target is replaced.
  */
 async function createAndLinkAnnotation(
   sourceId: ResourceId,
@@ -250,9 +261,10 @@ async function createAndLinkAnnotation(
   targetId: ResourceId,
   client: SemiontApiClient,
   auth: AccessToken,
-): Promise<void> {
+  throttle: Throttle,
+): Promise<LinkRef> {
   // Step 1: Create stub annotation
-  const response = await client.createAnnotation(sourceId, {
+  const response = await apiCall('createAnnotation', () => client.createAnnotation(sourceId, {
     motivation: 'linking',
     target: {
       source: sourceId,
@@ -266,13 +278,13 @@ async function createAndLinkAnnotation(
       value: 'cross-reference',
       purpose: 'tagging',
     }],
-  }, { auth });
+  }, { auth }), { throttle });
 
   const annId = response.annotationId as AnnotationId;
   printAnnotationCreated(annId);
 
   // Step 2: Link to target resource
-  await client.updateAnnotationBody(sourceId, annId, {
+  await apiCall('updateAnnotationBody', () => client.updateAnnotationBody(sourceId, annId, {
     resourceId: sourceId,
     operations: [{
       op: 'add',
@@ -282,13 +294,34 @@ async function createAndLinkAnnotation(
         purpose: 'linking',
       },
     }],
-  }, { auth });
+  }, { auth }), { throttle });
+
+  return { resourceId: sourceId, annotationId: annId, targetId };
+}
+
+/**
+ * Link annotations of a ToC whose stub references were created
+ */
+function tocLinks(tocId: ResourceId, references: TableOfContentsReference[]): LinkRef[] {
+  return references
+    .filter(ref => ref.annotationId)
+    .map(ref => ({ resourceId: tocId, annotationId: ref.annotationId as AnnotationId, targetId: ref.documentId }));
+}
+
+/**
+ * The baseline ToC for a ToC phase, if its entries are unchanged
+ */
+function keptToc(options: CustomLoadOptions, name: string, entries: string[]): TocRecord | undefined {
+  const toc = options.baseline?.tocs?.[name];
+  if (!toc || toc.entries.length !== entries.length) return undefined;
+  return toc.entries.every((entry, i) => entry === entries[i]) ? toc : undefined;
 }
 
 /**
  * Execute a single upload phase: select items, filter, group, render, upload.
  * After upload, creates reference annotations for cross-references.
  * Returns a URI map keyed by a match field for cross-referencing.
+ * Content keys and failure titles are prefixed with "<phase>/" so they stay unique across phases.
  */
 async function executePhase(
   phase: PhaseConfig,
@@ -298,7 +331,16 @@ async function executePhase(
   uriMaps: Record<string, UriMap>,
   client: SemiontApiClient,
   auth: AccessToken,
-): Promise<{ uriMap: UriMap; ids: ResourceId[]; uploaded: number; failed: number }> {
+  options: CustomLoadOptions,
+): Promise<{
+  uriMap: UriMap;
+  ids: ResourceId[];
+  uploaded: number;
+  reused: number;
+  failed: UploadFailure[];
+  index: Record<string, ResourceId>;
+  links: LinkRef[];
+}> {
   // 1. Select items
   let items = selectItems(jsonData, phase.source);
 
@@ -381,22 +423,47 @@ async function executePhase(
   // 5. Upload
   const documents = docsWithContext.map(d => d.document);
   const entityTypes = [...baseEntityTypes, ...phase.entityTypes];
-  const result = await uploadDocuments(documents, client, auth, { entityTypes });
+  const concurrency = resolveConcurrency(options.concurrency);
+  const prefix = `${phase.name}/`;
+  const previous = options.baseline && scopeIndex(options.baseline.contentIndex, prefix);
+  const result = await uploadDocuments(documents, client, auth, {
+    entityTypes,
+    journal: options.journal,
+    concurrency,
+    previous,
+  });
 
   // 6. Create reference annotations (if configured)
+  const links: LinkRef[] = [];
   if (phase.annotations && phase.annotations.length > 0) {
-    let totalAnnotations = 0;
-    for (let i = 0; i < docsWithContext.length && i < result.ids.length; i++) {
-      const { item, renderedContent } = docsWithContext[i];
-      if (!renderedContent) continue; // skip binary uploads
-
-      printBatchProgress(i + 1, docsWithContext.length, `Annotating ${documents[i].title}...`);
-      const count = await createPhaseAnnotations(
-        phase.annotations, result.ids[i], item, renderedContent, client, auth,
+    const annotations = phase.annotations;
+    // Pair each uploaded document with its ID (result.ids skips failed uploads)
+    const uploadedDocs = result.uploaded.map((document, i) => ({
+      context: docsWithContext.find(d => d.document === document)!,
+      resourceId: result.ids[i],
+      unchanged: previous?.[result.keys[i]] !== undefined,
+    }));
+
+    const created = await mapWithConcurrency(uploadedDocs, concurrency, async ({ context, resourceId, unchanged }, i, throttle) => {
+      const { item, renderedContent } = context;
+      if (!renderedContent) return []; // skip binary uploads
+
+      // Unchanged resources keep their annotations from the previous load
+      if (unchanged) return [];
+
+      // Resumed resources already got their annotations in an earlier run
+      const step = `annotations:${resourceId}`;
+      if (options.journal && isStepDone(options.journal, step)) return [];
+
+      printBatchProgress(i + 1, uploadedDocs.length, `Annotating ${context.document.title}...`);
+      const resourceLinks = await createPhaseAnnotations(
+        annotations, resourceId, item, renderedContent, client, auth, throttle,
       );
-      totalAnnotations += count;
-    }
-    printSuccess(`Created ${totalAnnotations} reference annotations`);
+      if (options.journal) markStepDone(options.journal, step);
+      return resourceLinks;
+    });
+    links.push(...created.flat());
+    printSuccess(`Created ${links.length} reference annotations`);
   }
 
   // 7. Build URI map for cross-referencing by later phases.
@@ -426,7 +493,15 @@ async function executePhase(
     }
   }
 
-  return { uriMap, ids: result.ids, uploaded: result.uploaded.length, failed: result.failed.length };
+  return {
+    uriMap,
+    ids: result.ids,
+    uploaded: result.uploaded.length - result.reused,
+    reused: result.reused,
+    failed: result.failed.map(failure => ({ ...failure, title: `${prefix}${failure.title}` })),
+    index: indexUploads(result, prefix),
+    links,
+  };
 }
 
 // ============================================================================
@@ -434,6 +509,8 @@ async function executePhase(
 // ============================================================================
 
 export const jsonMultiDocHandler: DatasetHandler = {
+  fields: { jsonFile: 'string' },
+
   async download(_config: DatasetYamlConfig): Promise<void> {
     printInfo('json-multi-doc handler: no download needed (data is local)');
   },
@@ -448,6 +525,7 @@ export const jsonMultiDocHandler: DatasetHandler = {
     scenarioDir: string,
     client: SemiontApiClient,
     auth: AccessToken,
+    options: CustomLoadOptions = {},
   ): Promise<CustomLoadResult> {
     if (!config.jsonFile) {
       throw new Error('json-multi-doc handler requires jsonFile in config');
@@ -463,24 +541,34 @@ export const jsonMultiDocHandler: DatasetHandler = {
     printSuccess(`Loaded ${jsonData.length} items`);
 
     const baseEntityTypes = config.entityTypes || [];
+    const concurrency = resolveConcurrency(options.concurrency);
     const uriMaps: Record<string, UriMap> = {};
     const phaseResults: Record<string, { uploaded: number; failed: number }> = {};
     const phaseResourceIds: Record<string, ResourceId[]> = {};
     let totalUploaded = 0;
     let totalFailed = 0;
+    let totalReused = 0;
+    const failures: UploadFailure[] = [];
+    const contentIndex: Record<string, ResourceId> = {};
+    const links: LinkRef[] = [];
+    const tocs: Record<string, TocRecord> = {};
     let stepNumber = 1;
 
     // Execute upload phases
     for (const phase of config.phases) {
       printSectionHeader('📤', stepNumber++, `Upload: ${phase.displayName}`);
       const result = await executePhase(
-        phase, jsonData, scenarioDir, baseEntityTypes, uriMaps, client, auth,
+        phase, jsonData, scenarioDir, baseEntityTypes, uriMaps, client, auth, options,
       );
       uriMaps[phase.name] = result.uriMap;
       phaseResourceIds[phase.name] = result.ids;
-      phaseResults[phase.name] = { uploaded: result.uploaded, failed: result.failed };
+      phaseResults[phase.name] = { uploaded: result.uploaded, failed: result.failed.length };
       totalUploaded += result.uploaded;
-      totalFailed += result.failed;
+      totalFailed += result.failed.length;
+      totalReused += result.reused;
+      failures.push(...result.failed);
+      Object.assign(contentIndex, result.index);
+      links.push(...result.links);
     }
 
     // Execute ToC phases
@@ -534,27 +622,53 @@ export const jsonMultiDocHandler: DatasetHandler = {
           }
         }
 
+        // Unchanged entries: keep the previous ToC (load re-points links to replaced resources)
+        const entries = tocDocs.map(doc => doc.title);
+        const kept = keptToc(options, tocPhase.name, entries);
+        if (kept) {
+          printInfo(`Unchanged: keeping ${kept.tocId}`);
+          tocUriMap.set(tocPhase.name, kept.tocId);
+          tocs[tocPhase.name] = kept;
+          phaseResults[tocPhase.name] = { uploaded: 0, failed: 0 };
+          totalReused += 1;
+          continue;
+        }
+
         // Create the ToC resource with annotation links
         const entityTypes = [...baseEntityTypes, ...tocPhase.entityTypes];
         const tocResult = await createDocumentTableOfContents(tocDocs, client, auth, {
           title: tocPhase.title,
           entityTypes,
+          journal: options.journal,
         });
 
         // Create stub references and link them
         const refsWithIds = await createStubReferences(
-          tocResult.tocId, tocResult.references, tocDocUris, client, auth,
+          tocResult.tocId, tocResult.references, tocDocUris, client, auth, { concurrency, resumed: tocResult.resumed },
         );
-        await linkReferences(tocResult.tocId, refsWithIds, client, auth);
+        await linkReferences(tocResult.tocId, refsWithIds, client, auth, { concurrency, resumed: tocResult.resumed });
+        links.push(...tocLinks(tocResult.tocId, refsWithIds));
 
         tocUriMap.set(tocPhase.name, tocResult.tocId);
+        // Entries whose stub failed are left out, so the next incremental load rebuilds this ToC
+        tocs[tocPhase.name] = { tocId: tocResult.tocId, entries: refsWithIds.map(ref => ref.text) };
         phaseResults[tocPhase.name] = { uploaded: 1, failed: 0 };
         totalUploaded += 1;
       }
     }
 
-    // Execute Master ToC
-    if (config.masterToc) {
+    // Execute Master ToC (kept only if its entries and every sub-ToC it links to are unchanged)
+    const masterKept = config.masterToc && keptToc(options, 'masterToc', config.masterToc.entries);
+    const subTocsKept = (config.tocPhases ?? []).every(
+      tocPhase => tocs[tocPhase.name]?.tocId === options.baseline?.tocs?.[tocPhase.name]?.tocId,
+    );
+    if (config.masterToc && masterKept && subTocsKept) {
+      printSectionHeader('📑', stepNumber++, `Master ToC: ${config.masterToc.title}`);
+      printInfo(`Unchanged: keeping ${masterKept.tocId}`);
+      tocs['masterToc'] = masterKept;
+      phaseResults['masterToc'] = { uploaded: 0, failed: 0 };
+      totalReused += 1;
+    } else if (config.masterToc) {
       printSectionHeader('📑', stepNumber++, `Master ToC: ${config.masterToc.title}`);
 
       const masterDocs: DocumentInfo[] = [];
@@ -579,19 +693,25 @@ export const jsonMultiDocHandler: DatasetHandler = {
       const masterResult = await createDocumentTableOfContents(masterDocs, client, auth, {
         title: config.masterToc.title,
         entityTypes,
+        journal: options.journal,
       });
 
       // Link master ToC entries to sub-ToCs
       const validRefs = masterResult.references.filter((_, i) => masterDocUris[i] && masterDocUris[i] !== '');
       const validUris = masterDocUris.filter(uri => uri && uri !== '');
 
+      let stubsComplete = true;
       if (validRefs.length > 0) {
         const refsWithIds = await createStubReferences(
-          masterResult.tocId, validRefs, validUris, client, auth,
+          masterResult.tocId, validRefs, validUris, client, auth, { concurrency, resumed: masterResult.resumed },
         );
-        await linkReferences(masterResult.tocId, refsWithIds, client, auth);
+        await linkReferences(masterResult.tocId, refsWithIds, client, auth, { concurrency, resumed: masterResult.resumed });
+        links.push(...tocLinks(masterResult.tocId, refsWithIds));
+        stubsComplete = refsWithIds.length === validRefs.length;
       }
 
+      // Without its entries recorded, a master ToC missing stubs is rebuilt by the next incremental load
+      tocs['masterToc'] = { tocId: masterResult.tocId, entries: stubsComplete ? config.masterToc.entries : [] };
       phaseResults['masterToc'] = { uploaded: 1, failed: 0 };
       totalUploaded += 1;
     }
@@ -599,10 +719,23 @@ export const jsonMultiDocHandler: DatasetHandler = {
     // Print summary
     printSectionHeader('✨', stepNumber, 'Summary');
     printSuccess(`Total uploaded: ${totalUploaded}, failed: ${totalFailed}`);
+    if (totalReused > 0) {
+      printInfo(`Unchanged: ${totalReused} resources kept from the previous load`);
+    }
     for (const [name, result] of Object.entries(phaseResults)) {
       printInfo(`  ${name}: ${result.uploaded} uploaded, ${result.failed} failed`);
     }
 
-    return { totalUploaded, totalFailed, phaseResults, phaseResourceIds };
+    return {
+      totalUploaded,
+      totalFailed,
+      phaseResults,
+      phaseResourceIds,
+      failures,
+      totalReused,
+      contentIndex,
+      links,
+      tocs,
+    };
   },
 };
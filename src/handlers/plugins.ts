@@ -0,0 +1,122 @@
+/**
+ * External Handler Plugins
+ *
+ * A scenario's config.yaml can name a handler module instead of a built-in
+ * handler:
+ *
+ *   handlerModule: ./handler.mjs        # relative to the scenario directory
+ *   handlerModule: @acme/semiont-sharepoint   # installed package
+ *
+ * The module exports a DatasetHandler (as its default export or as `handler`)
+ * with a `name`; it is registered in HANDLERS under that name, so private
+ * handlers can ship together with private scenarios.
+ */
+
+import { createRequire } from 'node:module';
+import { isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { DatasetHandler } from './types.js';
+import { HANDLERS } from './index.js';
+
+export interface LoadedPlugin {
+  name: string;
+  handler: DatasetHandler;
+}
+
+// Plugins by resolved module location, so scenarios sharing a module register it once
+const plugins = new Map<string, LoadedPlugin>();
+
+/**
+ * Resolve a handlerModule value to an importable URL or specifier.
+ * Paths are relative to the scenario directory; packages are looked up from
+ * the scenario directory first, then from this CLI's own dependencies.
+ */
+function resolveModule(specifier: string, scenarioDir: string): string {
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    return pathToFileURL(resolve(scenarioDir, specifier)).href;
+  }
+  try {
+    const require = createRequire(join(scenarioDir, 'config.yaml'));
+    return pathToFileURL(require.resolve(specifier)).href;
+  } catch {
+    return specifier;
+  }
+}
+
+function isFunction(value: unknown): value is (...args: unknown[]) => unknown {
+  return typeof value === 'function';
+}
+
+/**
+ * Check that a module export has the shape of a DatasetHandler
+ */
+function validateHandler(exported: unknown, specifier: string): DatasetHandler {
+  if (!exported || typeof exported !== 'object') {
+    throw new Error(`Handler module ${specifier} must export a DatasetHandler (default export or "handler")`);
+  }
+  const handler = exported as Record<string, unknown>;
+  if (!isFunction(handler.download)) {
+    throw new Error(`Handler module ${specifier} has no download() function`);
+  }
+  if (!isFunction(handler.load) && !isFunction(handler.customLoad)) {
+    throw new Error(`Handler module ${specifier} needs a load() or customLoad() function`);
+  }
+  if (handler.customLoad !== undefined && !isFunction(handler.customLoad)) {
+    throw new Error(`Handler module ${specifier}: customLoad must be a function`);
+  }
+  if (handler.name !== undefined && typeof handler.name !== 'string') {
+    throw new Error(`Handler module ${specifier}: name must be a string`);
+  }
+  return handler as unknown as DatasetHandler;
+}
+
+/**
+ * Import a handler module and register it in HANDLERS.
+ * The handler is registered under its declared `name`, falling back to the
+ * config's `handler` field; a name that is already taken by another handler is an error.
+ */
+export async function loadHandlerModule(
+  specifier: string,
+  scenarioDir: string,
+  configHandler?: string,
+): Promise<LoadedPlugin> {
+  const location = resolveModule(specifier, scenarioDir);
+  const cached = plugins.get(location);
+  if (cached) {
+    if (configHandler && configHandler !== cached.name) {
+      throw new Error(`config.yaml says handler "${configHandler}", but ${specifier} declares "${cached.name}"`);
+    }
+    return cached;
+  }
+
+  let module: Record<string, unknown>;
+  try {
+    module = await import(location);
+  } catch (error) {
+    throw new Error(`Cannot import handler module ${specifier}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const handler = validateHandler(module.default ?? module.handler, specifier);
+  const name = handler.name ?? configHandler;
+  if (!name) {
+    throw new Error(`Handler module ${specifier} declares no name; set "name" on the handler or "handler" in config.yaml`);
+  }
+  if (configHandler && configHandler !== name) {
+    throw new Error(`config.yaml says handler "${configHandler}", but ${specifier} declares "${name}"`);
+  }
+  if (HANDLERS[name]) {
+    throw new Error(`Handler module ${specifier} declares "${name}", which is already registered`);
+  }
+
+  // Handlers with only customLoad still need load(); the load command never calls it
+  const registered: DatasetHandler = {
+    ...handler,
+    load: handler.load ?? (async () => {
+      throw new Error(`${name} handler requires customLoad — it manages its own upload workflow`);
+    }),
+  };
+  HANDLERS[name] = registered;
+  const plugin = { name, handler: registered };
+  plugins.set(location, plugin);
+  return plugin;
+}
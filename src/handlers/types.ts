@@ -8,6 +8,10 @@
 import type { SemiontApiClient } from '@semiont/api-client';
 import type { AccessToken, ResourceId } from '@semiont/core';
 import type { DocumentInfo } from '../types.js';
+import type { UploadJournal } from '../checkpoint.js';
+import type { UploadFailure } from '../resources.js';
+import type { ChunkStrategy } from '../chunking.js';
+import type { LinkRef, StateResources, TocRecord } from '../state.js';
 
 /**
  * Phase configuration for json-multi-doc handler
@@ -89,21 +93,33 @@ export interface DatasetYamlConfig {
   name: string;
   displayName: string;
   emoji?: string;
-  handler: string;
+  handler: string;   // Built-in handler name, or the name declared by handlerModule (may be omitted then)
+  handlerModule?: string; // External handler: path relative to the scenario directory, or an npm package
+  tags?: string[];  // Labels for selecting datasets in batch runs (demo --tag <tag> <command>)
+  abstract?: boolean; // Base config only used through another config's `extends`; not loaded as a dataset
 
   // Handler-specific configuration
   url?: string;
   dataset?: string;  // For HuggingFace/ArXiv datasets (arxiv ID or HF dataset name)
   count?: number;
+  offset?: number;   // HuggingFace: index of the first row to fetch (default 0)
+  split?: string;    // HuggingFace: dataset split (default "train")
 
   // Processing options
   shouldChunk?: boolean;
   chunkSize?: number;
   useSmartChunking?: boolean;
+  chunkStrategy?: ChunkStrategy; // markdown: split at headings; legal-opinion: at opinions and Parts; oversized sections sub-split by size
+  headingDepth?: number;
+  targetTokens?: number;  // Token-budgeted chunking (replaces chunkSize/useSmartChunking)
+  maxTokens?: number;
+  overlapChars?: number;      // Context repeated from neighbouring chunks (one of the two)
+  overlapParagraphs?: number;
   entityTypes?: string[];
   createTableOfContents?: boolean;
   tocTitle?: string;
   detectCitations?: boolean;
+  concurrency?: number;  // Maximum uploads/annotation requests in flight (overridden by --concurrency)
 
   // Text extraction (for Gutenberg handler)
   extractionConfig?: {
@@ -135,12 +151,42 @@ export interface CustomLoadResult {
   totalFailed: number;
   phaseResults: Record<string, { uploaded: number; failed: number }>;
   phaseResourceIds: Record<string, ResourceId[]>;
+  failures?: UploadFailure[]; // Upload failures across all phases (titles prefixed with "<phase>/")
+  totalReused?: number;                   // Resources kept unchanged from the previous load (--incremental)
+  contentIndex?: Record<string, ResourceId>; // Content keys of uploaded items, prefixed with "<phase>/"
+  links?: LinkRef[];                      // Link annotations created by this load
+  tocs?: Record<string, TocRecord>;       // ToC resources by ToC phase name ("masterToc" for the master ToC)
 }
 
+/**
+ * Options passed by the load command to customLoad
+ */
+export interface CustomLoadOptions {
+  journal?: UploadJournal; // Checkpoint journal for resumable uploads
+  concurrency?: number;    // Maximum API requests in flight (default 1)
+  baseline?: Pick<StateResources, 'contentIndex' | 'links' | 'tocs'>; // Previous load, for --incremental
+}
+
+/**
+ * Value type of a config.yaml field that can be overridden with --set
+ */
+export type ConfigFieldType = 'string' | 'number' | 'boolean' | 'string[]';
+
 /**
  * Handler implementation interface
  */
 export interface DatasetHandler {
+  /**
+   * Name to register under; required for handlers loaded from a handlerModule
+   */
+  name?: string;
+
+  /**
+   * Handler-specific config.yaml fields that --set may override (the shared
+   * processing options are always allowed)
+   */
+  fields?: Record<string, ConfigFieldType>;
+
   /**
    * Download content from external source and cache it
    */
@@ -161,6 +207,7 @@ export interface DatasetHandler {
     scenarioDir: string,
     client: SemiontApiClient,
     auth: AccessToken,
+    options?: CustomLoadOptions,
   ) => Promise<CustomLoadResult>;
 }
 
@@ -6,14 +6,15 @@
 
 import type { SemiontApiClient } from '@semiont/api-client';
 import type { AccessToken, ResourceId, StoredEvent } from '@semiont/core';
-import { printInfo, printWarning, printEventBreakdown, printEvent, type EventDetails } from './display';
+import { printInfo, printLine, printWarning, printEventBreakdown, printEvent, type EventDetails } from './display';
+import { apiCall } from './api-call';
 
 /**
  * Show document event history
  */
 export async function showDocumentHistory(tocId: ResourceId, client: SemiontApiClient, auth: AccessToken): Promise<void> {
   try {
-    const data = await client.getResourceEvents(tocId, { auth });
+    const data = await apiCall('getResourceEvents', () => client.getResourceEvents(tocId, { auth }));
 
     if (!data.events || data.events.length === 0) {
       printWarning('No events found for document');
@@ -22,7 +23,7 @@ export async function showDocumentHistory(tocId: ResourceId, client: SemiontApiC
 
     const storedEvents = data.events;
     printInfo(`Total events: ${storedEvents.length}`);
-    console.log('');
+    printLine();
 
     // Group events by type
     const eventsByType: Record<string, number> = {};
@@ -34,7 +35,7 @@ export async function showDocumentHistory(tocId: ResourceId, client: SemiontApiC
     printEventBreakdown(eventsByType);
 
     // Show recent events (last 10)
-    console.log('   Recent events:');
+    printLine('   Recent events:');
     const recentEvents = storedEvents.slice(-10);
     recentEvents.forEach((stored: StoredEvent, index: number) => {
       const event = stored.event;
@@ -0,0 +1,75 @@
+/**
+ * Incremental Load Planning
+ *
+ * An incremental load uploads only items whose content key (title plus
+ * SHA-256, see journalKey) is not in the previous load's content index.
+ * Comparing the two indexes tells which old resources were replaced by a new
+ * version of the same item, and which belong to items that no longer exist.
+ */
+
+import type { ResourceId } from '@semiont/core';
+import type { UploadResult } from './resources.js';
+
+export interface Supersession {
+  replaced: Map<ResourceId, ResourceId>; // Old resource → new resource for the same item title
+  superseded: ResourceId[];              // Old resources to archive (replaced or removed items)
+  index: Record<string, ResourceId>;     // Content index to record for this load
+}
+
+/**
+ * Item title from a content key ("<title>::<sha256>")
+ */
+export function titleOfKey(key: string): string {
+  return key.slice(0, key.lastIndexOf('::'));
+}
+
+/**
+ * Content index entries for an upload result, optionally namespaced (e.g. by phase)
+ */
+export function indexUploads(result: UploadResult<unknown>, prefix: string = ''): Record<string, ResourceId> {
+  return Object.fromEntries(result.keys.map((key, i) => [`${prefix}${key}`, result.ids[i]]));
+}
+
+/**
+ * Entries of a content index under a namespace, with the namespace removed
+ */
+export function scopeIndex(index: Record<string, ResourceId> | undefined, prefix: string): Record<string, ResourceId> {
+  const scoped: Record<string, ResourceId> = {};
+  for (const [key, id] of Object.entries(index ?? {})) {
+    if (key.startsWith(prefix)) scoped[key.slice(prefix.length)] = id;
+  }
+  return scoped;
+}
+
+/**
+ * Compare the previous and current content indexes.
+ * Items that failed to upload this time keep their old resource, so nothing is
+ * lost; it stays in the index and a later incremental load retries the item.
+ */
+export function planSupersession(
+  previous: Record<string, ResourceId>,
+  current: Record<string, ResourceId>,
+  failedTitles: string[] = [],
+): Supersession {
+  const currentByTitle = new Map(Object.entries(current).map(([key, id]) => [titleOfKey(key), id]));
+  const currentIds = new Set(Object.values(current));
+  const failed = new Set(failedTitles);
+
+  const replaced = new Map<ResourceId, ResourceId>();
+  const superseded: ResourceId[] = [];
+  const index = { ...current };
+
+  for (const [key, oldId] of Object.entries(previous)) {
+    if (currentIds.has(oldId)) continue; // Unchanged item, resource reused
+    const title = titleOfKey(key);
+    if (failed.has(title)) {
+      index[key] = oldId;
+      continue;
+    }
+    const newId = currentByTitle.get(title);
+    if (newId) replaced.set(oldId, newId);
+    superseded.push(oldId);
+  }
+
+  return { replaced, superseded, index };
+}
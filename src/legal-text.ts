@@ -1,7 +1,7 @@
 /**
  * Legal Text Utilities
  *
- * Utilities for downloading and formatting legal opinions.
+ * Utilities for downloading, formatting and splitting legal opinions.
  */
 
 /**
@@ -53,32 +53,199 @@ export function formatLegalOpinion(
   return formatted;
 }
 
+// 'opinion' is text in which no header was recognised
+export type OpinionKind = 'front matter' | 'syllabus' | 'majority' | 'concurrence' | 'dissent' | 'opinion';
+
+/**
+ * A structural section of a court opinion: the syllabus, an opinion (majority,
+ * concurrence or dissent), or one of an opinion's numbered Parts
+ */
+export interface OpinionSection {
+  kind: OpinionKind;
+  label: string;      // e.g. "Syllabus", "Dissent (Justice Stevens) › II"
+  justice?: string;   // Author of the opinion, e.g. "Justice Kennedy", "Chief Justice Roberts"
+  part?: string;      // Roman numeral of a numbered Part, e.g. "II"
+  start: number;
+  end: number;
+}
+
+interface OpinionHeader {
+  kind: OpinionKind;
+  label: string;
+  justice?: string;
+  index: number; // Where the header matched
+  end: number;   // Just after the header
+  start: number; // Where the section starts: the header, or the reporter caption above it
+}
+
+// "Justice Kennedy", "JUSTICE KENNEDY", "Mr. Justice Holmes", "Chief Justice Roberts"
+const JUSTICE = String.raw`(?:(?:Mr\.|MR\.)\s+)?((?:Chief|CHIEF)\s+)?(?:Justice|JUSTICE)\s+(\p{Lu}[\p{L}'’-]+)`;
+
+// "Justice Kennedy delivered the opinion of the Court." / "... announced the judgment of the Court"
+const MAJORITY_PATTERN = new RegExp(
+  String.raw`${JUSTICE}\s+(delivered the opinion|announced the judgment) of the [Cc]ourt\b|\b(PER CURIAM|Per Curiam)\b`, 'gu');
+
+// "Justice Stevens, with whom Justice Ginsburg, Justice Breyer, and Justice Sotomayor join, concurring in part and dissenting in part."
+const SEPARATE_PATTERN = new RegExp(
+  String.raw`${JUSTICE},?(?:\s+with whom[^.]{0,300}?,)?\s+((?:concurring|dissenting)(?:\s+in\s+(?:part|the\s+judgment))?(?:\s+and\s+(?:concurring|dissenting)(?:\s+in\s+(?:part|the\s+judgment))?)?)\s*[.:]`, 'gu');
+
+// Captions the reporter prints above each opinion ("NOTICE: This opinion is subject to formal revision ... SUPREME COURT OF THE UNITED STATES")
+const CAPTION_PATTERN = /\bSUPREME COURT OF THE UNITED STATES\b/g;
+const NOTICE_PATTERN = /\b(?:NOTICE|NOTE):/g;
+const MAX_CAPTION_LENGTH = 1500;
+
+// A Roman numeral on its own line or after the end of a sentence, followed by a capitalised word: "... §441b. II The Court ..."
+const PART_PATTERN = /(?:^|\n|[.!?:;)\]"”’]\s+)[ \t]*(X{0,3}(?:IX|IV|V?I{0,3}))\.?(?=\s+["“(\[\p{Lu}\d])/gu;
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10 };
+
+function romanToNumber(numeral: string): number {
+  let value = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const current = ROMAN_VALUES[numeral[i]];
+    const next = ROMAN_VALUES[numeral[i + 1]] ?? 0;
+    value += current < next ? -current : current;
+  }
+  return value;
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
+}
+
+function justiceName(chief: string | undefined, name: string): string {
+  return `${chief ? 'Chief ' : ''}Justice ${capitalize(name)}`;
+}
+
+function lastMatch(text: string, pattern: RegExp): RegExpMatchArray | undefined {
+  return [...text.matchAll(pattern)].pop();
+}
+
+/**
+ * An opinion starts at the reporter caption printed above its header, when
+ * there is one between the previous header and this one
+ */
+function sectionStart(text: string, floor: number, index: number): number {
+  const window = text.substring(Math.max(floor, index - MAX_CAPTION_LENGTH), index);
+  const offset = index - window.length;
+  const caption = lastMatch(window, CAPTION_PATTERN);
+  if (!caption) {
+    return index;
+  }
+  const notice = lastMatch(window.substring(0, caption.index), NOTICE_PATTERN);
+  return offset + (notice?.index ?? caption.index!);
+}
+
 /**
- * Extract sections from legal opinion based on common patterns
+ * The syllabus, the opinion of the Court and each separate opinion, in order.
+ * Separate opinions are only looked for after the opinion of the Court, so the
+ * syllabus' summary of who joined what is not mistaken for them.
  */
-export function extractOpinionSections(text: string): string[] {
-  // Split on common section markers in legal opinions
-  // This is a simple heuristic - you may need to adjust based on actual format
-  const sections: string[] = [];
-
-  // Try to split on major section markers like "I", "II", "III", etc.
-  // or "Part I", "Part II", etc.
-  const sectionPattern = /(?:^|\n)(?:Part\s+)?([IVX]+)\s*\n/;
-
-  // If we can find sections, split on them
-  const parts = text.split(sectionPattern);
-
-  if (parts.length > 3) {
-    // We found section markers
-    for (let i = 1; i < parts.length; i += 2) {
-      const sectionNumber = parts[i];
-      const sectionContent = parts[i + 1] || '';
-      sections.push(`## ${sectionNumber}\n\n${sectionContent.trim()}`);
+function findOpinionHeaders(text: string): OpinionHeader[] {
+  const headers: Omit<OpinionHeader, 'start'>[] = [];
+
+  const majority = [...text.matchAll(MAJORITY_PATTERN)][0];
+  if (majority) {
+    const plurality = majority[3] === 'announced the judgment';
+    headers.push({
+      kind: 'majority',
+      label: majority[4] ? 'Per Curiam' : `${plurality ? 'Plurality opinion' : 'Opinion of the Court'} (${justiceName(majority[1], majority[2])})`,
+      ...(majority[2] && { justice: justiceName(majority[1], majority[2]) }),
+      index: majority.index!,
+      end: majority.index! + majority[0].length,
+    });
+  }
+
+  // The last "Syllabus" before the opinion, past any page navigation that names it
+  const syllabus = majority
+    ? lastMatch(text.substring(0, majority.index), /\bSyllabus\b/g)?.index
+    : text.match(/\bSyllabus\b/)?.index;
+  if (syllabus !== undefined) {
+    headers.unshift({ kind: 'syllabus', label: 'Syllabus', index: syllabus, end: syllabus + 'Syllabus'.length });
+  }
+
+  for (const match of text.matchAll(SEPARATE_PATTERN)) {
+    if (majority && match.index! < majority.index! + majority[0].length) {
+      continue;
     }
-  } else {
-    // No clear sections, return as single section
-    sections.push(text);
+    const role = match[3].replace(/\s+/g, ' ');
+    const justice = justiceName(match[1], match[2]);
+    const name = role === 'concurring' ? 'Concurrence' : role === 'dissenting' ? 'Dissent' : capitalize(role);
+    headers.push({
+      kind: role.includes('dissenting') ? 'dissent' : 'concurrence',
+      label: `${name} (${justice})`,
+      justice,
+      index: match.index!,
+      end: match.index! + match[0].length,
+    });
   }
 
+  return headers.map((header, i) => ({
+    ...header,
+    start: sectionStart(text, i > 0 ? headers[i - 1].end : 0, header.index),
+  }));
+}
+
+/**
+ * Numbered Parts (I, II, III, ...) of an opinion running from bodyStart to end.
+ * Only a run counted up from I is accepted, so a stray "I" or "V" is not a
+ * Part; an opinion with a Part I but no Part II has no Parts.
+ */
+function findParts(text: string, bodyStart: number, end: number): { numeral: string; start: number }[] {
+  const parts: { numeral: string; start: number }[] = [];
+  const body = text.substring(bodyStart, end);
+  for (const match of body.matchAll(PART_PATTERN)) {
+    const numeral = match[1];
+    if (numeral && romanToNumber(numeral) === parts.length + 1) {
+      parts.push({ numeral, start: bodyStart + match.index! + match[0].lastIndexOf(numeral) });
+    }
+  }
+  return parts.length > 1 ? parts : [];
+}
+
+/**
+ * Split a court opinion into its structural sections: front matter, the
+ * syllabus, the opinion of the Court, and each concurrence and dissent with its
+ * author, with opinions further split at their numbered Parts. Recognises the
+ * header lines of U.S. Reports opinions ("Justice Kennedy delivered the opinion
+ * of the Court.", "Justice Stevens, with whom Justice Ginsburg joins,
+ * dissenting.") whether the text keeps its line breaks or is collapsed to a
+ * single line (Cornell LII). An opinion concurring in part and dissenting in
+ * part counts as a dissent. Text without recognisable headers is one
+ * "Opinion" section. The sections cover the text in order.
+ */
+export function extractOpinionSections(text: string): OpinionSection[] {
+  const headers = findOpinionHeaders(text);
+  if (headers.length === 0) {
+    return [{ kind: 'opinion', label: 'Opinion', start: 0, end: text.length }];
+  }
+  const sections: OpinionSection[] = [];
+  const push = (section: OpinionSection) => {
+    if (text.substring(section.start, section.end).trim()) {
+      sections.push(section);
+    }
+  };
+
+  push({ kind: 'front matter', label: 'Front matter', start: 0, end: headers[0].start });
+  headers.forEach((header, i) => {
+    const end = headers[i + 1]?.start ?? text.length;
+    const { kind, label, justice } = header;
+    const parts = kind === 'syllabus' ? [] : findParts(text, header.end, end);
+    if (parts.length === 0) {
+      push({ kind, label, ...(justice && { justice }), start: header.start, end });
+      return;
+    }
+    // Text between the header and Part I stays with the header; a bare header joins Part I
+    const introEnd = text.substring(header.end, parts[0].start).trim() ? parts[0].start : header.start;
+    push({ kind, label, ...(justice && { justice }), start: header.start, end: introEnd });
+    parts.forEach((part, k) => push({
+      kind,
+      label: `${label} › ${part.numeral}`,
+      ...(justice && { justice }),
+      part: part.numeral,
+      start: k === 0 ? Math.min(introEnd, part.start) : part.start,
+      end: parts[k + 1]?.start ?? end,
+    }));
+  });
+
   return sections;
 }
@@ -0,0 +1,157 @@
+/**
+ * Logging
+ *
+ * Everything the CLI prints goes through a winston logger with two transports:
+ *
+ *   console   the human-friendly output of display.ts (silenced by --json)
+ *   file      one JSON entry per line in $DATA_DIR/logs/demo.log, rotated at 5 MB, 5 files kept
+ *
+ * File entries carry the dataset, command and pass they were written in, plus
+ * fields such as resourceId, operation and durationMs, so a failed unattended
+ * run can be diagnosed afterwards. LOG_LEVEL (error, warn, info or debug;
+ * default debug) sets what the file records; the console always shows the
+ * usual output.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { join } from 'node:path';
+import winston from 'winston';
+import Transport from 'winston-transport';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+const DEFAULT_LOG_LEVEL: LogLevel = 'debug';
+const MAX_LOG_SIZE = 5 * 1024 * 1024;
+const MAX_LOG_FILES = 5;
+
+// The console rendering of an entry; a symbol, so it never reaches the log file
+const CONSOLE_LINE = Symbol('consoleLine');
+
+/**
+ * Fields added to every entry written while a command runs
+ */
+export interface LogContext {
+  dataset?: string;
+  command?: string;
+  pass?: string;
+}
+
+const context = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run a function with fields added to every entry it logs (nested contexts
+ * inherit the outer fields, parallel ones stay separate)
+ */
+export function withLogContext<T>(fields: LogContext, fn: () => Promise<T>): Promise<T> {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+/**
+ * Record the pass the current command has reached
+ */
+export function setLogPass(pass: string): void {
+  const store = context.getStore();
+  if (store) {
+    store.pass = pass;
+  }
+}
+
+/**
+ * Writes the console rendering of entries that have one, errors to stderr
+ */
+class ConsoleTransport extends Transport {
+  log(info: winston.Logform.TransformableInfo, callback: () => void): void {
+    const line = (info as Record<symbol, unknown>)[CONSOLE_LINE];
+    if (typeof line === 'string') {
+      if (info.level === 'error') {
+        console.error(line);
+      } else {
+        console.log(line);
+      }
+    }
+    callback();
+  }
+}
+
+// Entries with no message (blank lines, separators) are console-only
+const skipEmpty = winston.format(info => (info.message ? info : false));
+
+// Context fields, unless the entry sets them itself
+const addContext = winston.format(info => {
+  for (const [key, value] of Object.entries(context.getStore() ?? {})) {
+    if (info[key] === undefined && value !== undefined) {
+      info[key] = value;
+    }
+  }
+  return info;
+});
+
+function resolveLogLevel(): { level: LogLevel; invalid?: string } {
+  const value = process.env.LOG_LEVEL?.toLowerCase();
+  if (!value) {
+    return { level: DEFAULT_LOG_LEVEL };
+  }
+  return LOG_LEVELS.includes(value as LogLevel)
+    ? { level: value as LogLevel }
+    : { level: DEFAULT_LOG_LEVEL, invalid: process.env.LOG_LEVEL };
+}
+
+let logger: winston.Logger | undefined;
+let fileTransport: winston.transports.FileTransportInstance | undefined;
+
+/**
+ * Path of the current log file
+ */
+export function logFilePath(): string {
+  return join(process.env.DATA_DIR || 'data', 'logs', 'demo.log');
+}
+
+/**
+ * The logger, created on first use (after .env has been loaded)
+ */
+function getLogger(): winston.Logger {
+  if (logger) {
+    return logger;
+  }
+  const { level, invalid } = resolveLogLevel();
+  fileTransport = new winston.transports.File({
+    filename: logFilePath(),
+    level,
+    maxsize: MAX_LOG_SIZE,
+    maxFiles: MAX_LOG_FILES,
+    tailable: true,
+    format: winston.format.combine(skipEmpty(), winston.format.json()),
+  });
+  logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(addContext(), winston.format.timestamp()),
+    transports: [new ConsoleTransport({ level: 'debug' }), fileTransport],
+  });
+  if (invalid) {
+    logger.warn(`LOG_LEVEL "${invalid}" is not one of ${LOG_LEVELS.join(', ')}; using ${DEFAULT_LOG_LEVEL}`);
+  }
+  return logger;
+}
+
+/**
+ * Log an entry; `consoleLine` is what the console shows for it (nothing if undefined)
+ */
+export function log(level: LogLevel, message: string, fields: Record<string, unknown> = {}, consoleLine?: string): void {
+  getLogger().log({ level, message, ...fields, [CONSOLE_LINE]: consoleLine });
+}
+
+/**
+ * Wait until every entry has been written to the log file. Call before
+ * process.exit(), which would drop entries still being written.
+ */
+export async function closeLogger(): Promise<void> {
+  if (!logger || !fileTransport) {
+    return;
+  }
+  const finished = new Promise<void>(resolve => fileTransport!.on('finish', () => resolve()));
+  logger.end();
+  await finished;
+  logger = undefined;
+  fileTransport = undefined;
+}
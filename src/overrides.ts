@@ -0,0 +1,89 @@
+/**
+ * Config Overrides
+ *
+ * Parses `--set key=value` assignments into typed config.yaml values. Only
+ * fields the dataset's handler knows about may be set, so a typo fails
+ * loudly instead of being silently ignored.
+ */
+
+import type { ConfigFieldType, DatasetHandler } from './handlers/types.js';
+
+/**
+ * Processing options every handler's datasets accept (consumed by the load and annotate commands)
+ */
+export const COMMON_FIELDS: Record<string, ConfigFieldType> = {
+  displayName: 'string',
+  emoji: 'string',
+  cacheFile: 'string',
+  shouldChunk: 'boolean',
+  chunkSize: 'number',
+  useSmartChunking: 'boolean',
+  chunkStrategy: 'string',
+  headingDepth: 'number',
+  targetTokens: 'number',
+  maxTokens: 'number',
+  overlapChars: 'number',
+  overlapParagraphs: 'number',
+  entityTypes: 'string[]',
+  createTableOfContents: 'boolean',
+  tocTitle: 'string',
+  detectCitations: 'boolean',
+  concurrency: 'number',
+};
+
+function parseValue(key: string, raw: string, type: ConfigFieldType): unknown {
+  switch (type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new Error(`--set ${key}: expected a number, got "${raw}"`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (['true', 'yes', '1'].includes(raw.toLowerCase())) return true;
+      if (['false', 'no', '0'].includes(raw.toLowerCase())) return false;
+      throw new Error(`--set ${key}: expected true or false, got "${raw}"`);
+    case 'string[]':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    case 'string':
+      return raw;
+  }
+}
+
+/**
+ * Parse "key=value" assignments against the fields a handler accepts.
+ * Lists are comma-separated ("entityTypes=legal,opinion"); later assignments win.
+ */
+export function parseOverrides(
+  assignments: string[],
+  handlerName: string,
+  handler: DatasetHandler,
+): Record<string, unknown> {
+  const fields = { ...COMMON_FIELDS, ...handler.fields };
+  const overrides: Record<string, unknown> = {};
+
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`--set expects key=value, got "${assignment}"`);
+    }
+    const key = assignment.slice(0, separator).trim();
+    const type = fields[key];
+    if (!type) {
+      throw new Error(`Unknown field "${key}" for handler ${handlerName}. Settable fields: ${Object.keys(fields).sort().join(', ')}`);
+    }
+    overrides[key] = parseValue(key, assignment.slice(separator + 1), type);
+  }
+
+  return overrides;
+}
+
+/**
+ * The --set arguments that reproduce a set of overrides
+ */
+export function formatOverrides(overrides: Record<string, unknown>): string {
+  return Object.entries(overrides)
+    .map(([key, value]) => `--set ${key}=${Array.isArray(value) ? value.join(',') : String(value)}`)
+    .join(' ');
+}
@@ -0,0 +1,199 @@
+/**
+ * Backend Profiles
+ *
+ * Named backends (local, Codespaces, staging, ...) in a profiles file, so
+ * switching between them is a --profile flag instead of editing .env. Every
+ * command connects through connectBackend, which uses the active profile or,
+ * when none is selected, the SEMIONT_URL/AUTH_* environment variables.
+ *
+ * ~/.semiont-agents/profiles.yaml (or $SEMIONT_PROFILES_FILE):
+ *
+ *   default: local
+ *   profiles:
+ *     local:
+ *       url: http://localhost:8080
+ *       email: admin@example.com
+ *       password: password
+ *     staging:
+ *       url: https://staging.example.org
+ *       accessToken: eyJ...
+ */
+
+import { existsSync, readFileSync, renameSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import * as yaml from 'js-yaml';
+import { SemiontApiClient } from '@semiont/api-client';
+import type { AccessToken } from '@semiont/core';
+import { baseUrl } from '@semiont/core';
+import { authenticate, type AuthConfig } from './auth.js';
+import { journalPathFor } from './checkpoint.js';
+import { printInfo } from './display.js';
+import { log } from './logger.js';
+
+export interface BackendProfile extends AuthConfig {
+  url: string;
+}
+
+interface ProfilesFile {
+  default?: string;                         // Profile used when neither --profile nor SEMIONT_PROFILE is set
+  profiles?: Record<string, BackendProfile>;
+}
+
+/**
+ * The backend a command talks to
+ */
+export interface Backend extends BackendProfile {
+  profile?: string; // Profile name, or undefined when configured from environment variables
+}
+
+// Profile names become part of state file names, so they must not contain path characters
+const PROFILE_NAME = /^[A-Za-z0-9_-]+$/;
+
+let active: { name: string; profile: BackendProfile; isDefault: boolean } | undefined;
+
+// Sessions authenticated in this process, so batch runs and pipelines log in once per backend
+const sessions = new Map<string, Promise<{ client: SemiontApiClient; auth: AccessToken }>>();
+
+/**
+ * Path of the profiles file
+ */
+export function profilesPath(): string {
+  return process.env.SEMIONT_PROFILES_FILE || join(homedir(), '.semiont-agents', 'profiles.yaml');
+}
+
+function readProfiles(path: string): ProfilesFile {
+  const parsed = yaml.load(readFileSync(path, 'utf-8'));
+  if (parsed === undefined || parsed === null) return {};
+  if (typeof parsed !== 'object') {
+    throw new Error(`Profiles file ${path} must be a mapping with a "profiles" key`);
+  }
+  return parsed as ProfilesFile;
+}
+
+/**
+ * Select the active profile: the --profile value, else SEMIONT_PROFILE, else the
+ * file's default. Returns the profile name, or undefined if no profile applies.
+ */
+export function selectProfile(name?: string): string | undefined {
+  const path = profilesPath();
+  const requested = name || process.env.SEMIONT_PROFILE;
+
+  if (!existsSync(path)) {
+    if (requested) {
+      throw new Error(`Profile "${requested}" requested, but profiles file ${path} not found`);
+    }
+    active = undefined;
+    return undefined;
+  }
+
+  const file = readProfiles(path);
+  const profiles = file.profiles ?? {};
+  const selected = requested || file.default;
+  if (!selected) {
+    active = undefined;
+    return undefined;
+  }
+
+  if (!PROFILE_NAME.test(selected)) {
+    throw new Error(`Invalid profile name "${selected}": use only letters, digits, "-" and "_"`);
+  }
+  const profile = profiles[selected];
+  if (!profile) {
+    throw new Error(`Unknown profile: ${selected}. Available: ${Object.keys(profiles).join(', ') || '(none)'} in ${path}`);
+  }
+  if (!profile.url) {
+    throw new Error(`Profile "${selected}" in ${path} has no url`);
+  }
+
+  active = { name: selected, profile, isDefault: selected === file.default };
+  return selected;
+}
+
+/**
+ * Name of the active profile, if any
+ */
+export function activeProfile(): string | undefined {
+  return active?.name;
+}
+
+/**
+ * The backend to use - NO DEFAULTS, FAIL LOUDLY.
+ * The active profile wins; otherwise SEMIONT_URL, AUTH_EMAIL, AUTH_PASSWORD and ACCESS_TOKEN.
+ */
+export function resolveBackend(): Backend {
+  if (active) {
+    return { ...active.profile, profile: active.name };
+  }
+
+  const SEMIONT_URL = process.env.SEMIONT_URL;
+  if (!SEMIONT_URL) {
+    throw new Error(`SEMIONT_URL environment variable is required (or select a profile from ${profilesPath()} with --profile)`);
+  }
+  return {
+    url: SEMIONT_URL,
+    email: process.env.AUTH_EMAIL,
+    password: process.env.AUTH_PASSWORD,
+    accessToken: process.env.ACCESS_TOKEN,
+  };
+}
+
+/**
+ * Create an API client for the backend and authenticate against it.
+ * Later calls for the same backend and credentials reuse the session.
+ */
+export async function connectBackend(backend: Backend): Promise<{ client: SemiontApiClient; auth: AccessToken }> {
+  printInfo(`Backend: ${backend.url}${backend.profile ? ` (profile: ${backend.profile})` : ''}`);
+
+  const key = JSON.stringify([backend.url, backend.email, backend.accessToken]);
+  const existing = sessions.get(key);
+  if (existing) {
+    printInfo('Reusing the session authenticated earlier in this run');
+    return existing;
+  }
+
+  const session = (async () => {
+    const client = new SemiontApiClient({
+      baseUrl: baseUrl(backend.url),
+    });
+    const auth = await authenticate(client, {
+      email: backend.email,
+      password: backend.password,
+      accessToken: backend.accessToken,
+    });
+    return { client, auth };
+  })();
+  sessions.set(key, session);
+  // A failed login is not cached, so the next command tries again
+  session.catch(() => sessions.delete(key));
+  return session;
+}
+
+/**
+ * State file name for a profile: ".state.json" without one, ".state.<profile>.json" with one
+ */
+export function stateFileName(profile?: string): string {
+  if (profile && !PROFILE_NAME.test(profile)) {
+    throw new Error(`Invalid profile name "${profile}": use only letters, digits, "-" and "_"`);
+  }
+  return profile ? `.state.${profile}.json` : '.state.json';
+}
+
+/**
+ * Path of a dataset's state file under a profile. The profiles file's default
+ * profile takes over a ".state.json" (and its upload journal) written before
+ * profiles were set up, so defining a default does not orphan earlier loads.
+ */
+export function stateFilePath(scenarioDir: string, profile?: string): string {
+  const stateFile = join(scenarioDir, stateFileName(profile));
+  const legacy = join(scenarioDir, stateFileName());
+  if (profile && active?.name === profile && active.isDefault && !existsSync(stateFile) && existsSync(legacy)) {
+    renameSync(legacy, stateFile);
+    if (existsSync(journalPathFor(legacy))) {
+      renameSync(journalPathFor(legacy), journalPathFor(stateFile));
+    }
+    // Logged rather than printed: this runs before --json silences the console
+    log('info', `Moved ${legacy} to ${stateFileName(profile)} (state from before the default profile "${profile}" was set)`, { stateFile });
+  }
+  return stateFile;
+}
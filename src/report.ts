@@ -0,0 +1,73 @@
+/**
+ * JSON Command Reports
+ *
+ * With --json, pretty output is silenced and each command prints a single
+ * result document on stdout when it finishes, whether it succeeded or failed.
+ * The document is the run record written to the state file plus the details
+ * scripts need (ToC, per-phase counts, upload failures, validation results).
+ */
+
+import type { ResourceId } from '@semiont/core';
+import type { CommandRun } from './state.js';
+import type { UploadFailure } from './resources.js';
+import type { ValidationResult } from './validation.js';
+
+export interface CommandReport extends CommandRun {
+  dataset: string;
+  durationMs: number;
+  timings: Record<string, number>; // Milliseconds spent in each pass, in execution order
+  tocId?: ResourceId;
+  phases?: Record<string, Record<string, number>>; // Per-phase counts (load: uploaded/failed, annotate: highlighted/failed)
+  failures?: UploadFailure[];
+  validation?: ValidationResult[];
+  dryRun?: {
+    outputDir: string;
+    manifestPath: string;
+    resources: number;
+    annotations: number;
+    calls: number;
+    mismatched: number;
+  };
+}
+
+export type ReportDetails = Partial<Pick<CommandReport, 'tocId' | 'phases' | 'failures' | 'validation' | 'dryRun'>>;
+
+/**
+ * Measures how long each pass of a command takes
+ */
+export interface PassTimer {
+  lap(pass: string): void; // Record the time since the previous lap (or start) under this name
+  laps: Record<string, number>;
+}
+
+export function startTimer(): PassTimer {
+  let last = Date.now();
+  const laps: Record<string, number> = {};
+  return {
+    laps,
+    lap(pass: string) {
+      const now = Date.now();
+      laps[pass] = (laps[pass] ?? 0) + (now - last);
+      last = now;
+    },
+  };
+}
+
+/**
+ * Write the result document for a finished run to stdout
+ */
+export function printReport(
+  datasetName: string,
+  run: CommandRun,
+  timer: PassTimer,
+  details: ReportDetails = {},
+): void {
+  const report: CommandReport = {
+    dataset: datasetName,
+    ...run,
+    durationMs: Date.parse(run.finishedAt) - Date.parse(run.startedAt),
+    timings: timer.laps,
+    ...details,
+  };
+  process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+}
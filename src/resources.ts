@@ -9,17 +9,26 @@ import type { AccessToken, ResourceId } from '@semiont/core';
 import type { ChunkInfo } from './chunking';
 import type { DocumentInfo } from './types';
 import { printBatchProgress, printSuccess, printInfo, printWarning } from './display';
+import { findUpload, journalKey, recordUpload, type UploadJournal } from './checkpoint';
+import { mapWithConcurrency, resolveConcurrency } from './concurrency';
+import { apiCall, isNotFound } from './api-call';
+import { log } from './logger';
 
 export type { DocumentInfo } from './types';
 
 export interface UploadOptions {
   entityTypes?: string[];
+  journal?: UploadJournal; // Skip items already uploaded by an earlier run, record new uploads
+  concurrency?: number;    // Maximum uploads in flight (default 1)
+  previous?: Record<string, ResourceId>; // Content index of the last load: unchanged items reuse their resource
 }
 
 export interface UploadResult<T> {
   ids: ResourceId[];
   uploaded: T[];
   failed: UploadFailure[];
+  keys: string[];  // Content key (title + SHA-256) of each uploaded item, aligned with ids
+  reused: number;  // Items whose unchanged resource from the last load was kept
 }
 
 export interface UploadFailure {
@@ -36,40 +45,113 @@ export async function uploadChunks(
   auth: AccessToken,
   options: UploadOptions = {}
 ): Promise<UploadResult<ChunkInfo>> {
-  const ids: ResourceId[] = [];
-  const uploaded: ChunkInfo[] = [];
-  const failed: UploadFailure[] = [];
   const { entityTypes = [] } = options;
 
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    printBatchProgress(i + 1, chunks.length, `Uploading ${chunk.title}...`);
+  return uploadItems(chunks, chunk => ({
+    title: chunk.title,
+    content: chunk.content,
+    metadata: chunk.metadata,
+    request: {
+      name: chunk.title,
+      file: Buffer.from(chunk.content),
+      format: 'text/plain' as const,
+      entityTypes,
+    },
+  }), client, auth, options);
+}
+
+type CreateResourceRequest = Parameters<SemiontApiClient['createResource']>[0];
+
+interface UploadItem {
+  title: string;
+  content: string | Buffer;
+  metadata?: Record<string, unknown>; // Recorded in the log entry for the created resource
+  request: CreateResourceRequest;
+}
+
+type UploadOutcome =
+  | { status: 'uploaded' | 'resumed' | 'reused'; key: string; resourceId: ResourceId }
+  | { status: 'failed'; error: string };
+
+/**
+ * Shared upload loop: journal lookup, bounded-concurrency createResource, ordered results
+ */
+async function uploadItems<T>(
+  items: T[],
+  describe: (item: T) => UploadItem,
+  client: SemiontApiClient,
+  auth: AccessToken,
+  options: UploadOptions,
+): Promise<UploadResult<T>> {
+  const { journal, previous } = options;
+  const concurrency = resolveConcurrency(options.concurrency);
+
+  const outcomes = await mapWithConcurrency(items, concurrency, async (item, i, throttle): Promise<UploadOutcome> => {
+    const { title, content, metadata, request } = describe(item);
+    const key = journalKey(title, content);
+    const unchangedId = previous?.[key];
+    if (unchangedId) {
+      return { status: 'reused', key, resourceId: unchangedId };
+    }
+    const previousId = journal && findUpload(journal, key);
+    if (previousId) {
+      return { status: 'resumed', key, resourceId: previousId };
+    }
+
+    printBatchProgress(i + 1, items.length, `Uploading ${title}...`);
 
     try {
-      const request = {
-        name: chunk.title,
-        file: Buffer.from(chunk.content),
-        format: 'text/plain' as const,
-        entityTypes,
-      };
-
-      const response = await client.createResource(request, { auth });
+      const response = await apiCall('createResource', () => client.createResource(request, { auth }), { throttle });
       const resourceId = response.resourceId as ResourceId;
-      ids.push(resourceId);
-      uploaded.push(chunk);
-      printSuccess(resourceId, 7);
+      if (journal) recordUpload(journal, key, title, resourceId);
+      log('debug', `Created resource ${title}`, { resourceId, title, key, ...(metadata && { metadata }) });
+      // With several uploads in flight, name the item so results can be matched to progress lines
+      printSuccess(concurrency > 1 ? `${title} → ${resourceId}` : resourceId, 7);
+      return { status: 'uploaded', key, resourceId };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      failed.push({ title: chunk.title, error: message });
-      printWarning(`Failed: ${message}`, 7);
+      printWarning(concurrency > 1 ? `Failed: ${title}: ${message}` : `Failed: ${message}`, 7);
+      return { status: 'failed', error: message };
     }
-  }
+  });
+
+  // Assemble results in input order
+  const ids: ResourceId[] = [];
+  const uploaded: T[] = [];
+  const failed: UploadFailure[] = [];
+  const keys: string[] = [];
+  let resumed = 0;
+  let reused = 0;
+
+  outcomes.forEach((outcome, i) => {
+    if (outcome.status === 'failed') {
+      failed.push({ title: describe(items[i]).title, error: outcome.error });
+      return;
+    }
+    if (outcome.status === 'resumed') resumed++;
+    if (outcome.status === 'reused') reused++;
+    ids.push(outcome.resourceId);
+    keys.push(outcome.key);
+    uploaded.push(items[i]);
+  });
 
-  printUploadSummary(chunks.length, ids.length, failed);
-  return { ids, uploaded, failed };
+  printUploadSummary(items.length, ids.length, failed, resumed, reused);
+  return { ids, uploaded, failed, keys, reused };
 }
 
-function printUploadSummary(total: number, succeeded: number, failed: UploadFailure[]): void {
+function printUploadSummary(
+  total: number,
+  succeeded: number,
+  failed: UploadFailure[],
+  resumed: number,
+  reused: number,
+): void {
+  if (reused > 0) {
+    printInfo(`Unchanged: ${reused} items kept their resources from the previous load`);
+  }
+  if (resumed > 0) {
+    printInfo(`Resumed: ${resumed} items already uploaded by an earlier run were skipped`);
+  }
   if (failed.length === 0) {
     printSuccess(`All ${total} items uploaded`);
   } else {
@@ -91,6 +173,66 @@ export interface TableOfContentsReference {
 export interface TableOfContentsOptions {
   title: string;
   entityTypes?: string[];
+  journal?: UploadJournal; // Reuse a ToC created by an interrupted earlier run, record a new one
+}
+
+export interface TableOfContentsResult {
+  tocId: ResourceId;
+  references: TableOfContentsReference[];
+  resumed: boolean; // The ToC was created by an interrupted earlier run and may already carry stubs
+}
+
+/**
+ * Create a ToC resource through the upload journal. Its journal key leaves out
+ * the generation timestamp, so a resumed run finds the ToC an interrupted run
+ * created for the same entries (the timestamp's length is fixed, so the entry
+ * offsets match too).
+ */
+async function uploadTableOfContents(
+  content: string,
+  timestamp: string,
+  client: SemiontApiClient,
+  auth: AccessToken,
+  options: TableOfContentsOptions,
+): Promise<{ tocId: ResourceId; resumed: boolean }> {
+  const { title, entityTypes = [], journal } = options;
+  const key = journalKey(title, content.replace(timestamp, ''));
+  const previousId = journal && findUpload(journal, key);
+  if (previousId) {
+    printSuccess(`Reusing ToC created by an earlier run: ${previousId}`);
+    return { tocId: previousId, resumed: true };
+  }
+
+  const request = {
+    name: title,
+    file: Buffer.from(content),
+    format: 'text/markdown' as const,
+    entityTypes: [...entityTypes, 'table-of-contents'],
+  };
+
+  const response = await apiCall('createResource', () => client.createResource(request, { auth }));
+  const tocId = response.resourceId as ResourceId;
+  if (journal) recordUpload(journal, key, title, tocId);
+  printSuccess(`Created ToC: ${tocId}`);
+  return { tocId, resumed: false };
+}
+
+/**
+ * ToC entry text for a chunk: its section for structure-aware chunks, otherwise "Part N"
+ */
+export function tocEntryText(chunk: ChunkInfo): string {
+  return chunk.section ?? `Part ${chunk.partNumber}`;
+}
+
+/**
+ * ToC note for a chunk that repeats context from its neighbours, so readers know which part owns the text
+ */
+function describeOverlap(chunk: ChunkInfo, previous?: ChunkInfo, next?: ChunkInfo): string {
+  const shared = [
+    chunk.overlap?.before && previous ? `opens with ${chunk.overlap.before} characters of ${tocEntryText(previous)}` : '',
+    chunk.overlap?.after && next ? `ends with ${chunk.overlap.after} characters of ${tocEntryText(next)}` : '',
+  ].filter(Boolean);
+  return shared.length ? ` (${shared.join(', ')})` : '';
 }
 
 /**
@@ -101,8 +243,8 @@ export async function createTableOfContents(
   client: SemiontApiClient,
   auth: AccessToken,
   options: TableOfContentsOptions
-): Promise<{ tocId: ResourceId; references: TableOfContentsReference[] }> {
-  const { title, entityTypes = [] } = options;
+): Promise<TableOfContentsResult> {
+  const { title } = options;
 
   // Build markdown content with timestamp to ensure unique document ID
   const timestamp = new Date().toISOString();
@@ -112,8 +254,8 @@ export async function createTableOfContents(
   const references: TableOfContentsReference[] = [];
 
   chunks.forEach((chunk, index) => {
-    const partText = `Part ${chunk.partNumber}`;
-    const listItem = `${index + 1}. ${partText}\n`;
+    const partText = tocEntryText(chunk);
+    const listItem = `${index + 1}. ${partText}${describeOverlap(chunk, chunks[index - 1], chunks[index + 1])}\n`;
     const start = content.length + `${index + 1}. `.length;
     const end = start + partText.length;
 
@@ -128,19 +270,9 @@ export async function createTableOfContents(
   });
 
   printInfo(`Creating ToC document with ${chunks.length} entries (${timestamp})...`);
+  const { tocId, resumed } = await uploadTableOfContents(content, timestamp, client, auth, options);
 
-  const request = {
-    name: title,
-    file: Buffer.from(content),
-    format: 'text/markdown' as const,
-    entityTypes: [...entityTypes, 'table-of-contents'],
-  };
-
-  const response = await client.createResource(request, { auth });
-  const tocId = response.resourceId as ResourceId;
-  printSuccess(`Created ToC: ${tocId}`);
-
-  return { tocId, references };
+  return { tocId, references, resumed };
 }
 
 /**
@@ -153,44 +285,52 @@ export async function uploadDocuments(
   auth: AccessToken,
   options: UploadOptions = {}
 ): Promise<UploadResult<DocumentInfo>> {
-  const ids: ResourceId[] = [];
-  const uploaded: DocumentInfo[] = [];
-  const failed: UploadFailure[] = [];
   const { entityTypes = [] } = options;
 
-  for (let i = 0; i < documents.length; i++) {
-    const doc = documents[i];
-    printBatchProgress(i + 1, documents.length, `Uploading ${doc.title}...`);
-
-    try {
+  return uploadItems(documents, doc => ({
+    title: doc.title,
+    content: doc.content,
+    metadata: doc.metadata,
+    request: {
+      name: doc.title,
       // Handle both string and Buffer content
-      const fileBuffer = Buffer.isBuffer(doc.content) ? doc.content : Buffer.from(doc.content);
-
+      file: Buffer.isBuffer(doc.content) ? doc.content : Buffer.from(doc.content),
       // Use format from document if provided, otherwise default to text/plain
-      const format = doc.format || 'text/plain';
-
-      const request = {
-        name: doc.title,
-        file: fileBuffer,
-        format,
-        entityTypes,
-        ...(doc.language ? { language: doc.language.toLowerCase() } : {}),
-      };
+      format: doc.format || 'text/plain',
+      entityTypes,
+      ...(doc.language ? { language: doc.language.toLowerCase() } : {}),
+    },
+  }), client, auth, options);
+}
 
-      const response = await client.createResource(request, { auth });
-      const resourceId = response.resourceId as ResourceId;
-      ids.push(resourceId);
-      uploaded.push(doc);
-      printSuccess(resourceId, 7);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      failed.push({ title: doc.title, error: message });
-      printWarning(`Failed: ${message}`, 7);
-    }
-  }
+export interface ResourceFile {
+  name: string;
+  content: Buffer;
+  format: string;
+  entityTypes: string[];
+  language?: string;
+}
 
-  printUploadSummary(documents.length, ids.length, failed);
-  return { ids, uploaded, failed };
+/**
+ * Upload files that each carry their own media type and entity types (e.g. the content of an imported bundle)
+ */
+export async function uploadFiles<T extends ResourceFile>(
+  files: T[],
+  client: SemiontApiClient,
+  auth: AccessToken,
+  options: UploadOptions = {}
+): Promise<UploadResult<T>> {
+  return uploadItems(files, file => ({
+    title: file.name,
+    content: file.content,
+    request: {
+      name: file.name,
+      file: file.content,
+      format: file.format,
+      entityTypes: file.entityTypes,
+      ...(file.language ? { language: file.language } : {}),
+    },
+  }), client, auth, options);
 }
 
 /**
@@ -202,8 +342,8 @@ export async function createDocumentTableOfContents(
   client: SemiontApiClient,
   auth: AccessToken,
   options: TableOfContentsOptions
-): Promise<{ tocId: ResourceId; references: TableOfContentsReference[] }> {
-  const { title, entityTypes = [] } = options;
+): Promise<TableOfContentsResult> {
+  const { title } = options;
 
   // Build markdown content with timestamp to ensure unique document ID
   const timestamp = new Date().toISOString();
@@ -229,17 +369,30 @@ export async function createDocumentTableOfContents(
   });
 
   printInfo(`Creating ToC document with ${documents.length} entries (${timestamp})...`);
+  const { tocId, resumed } = await uploadTableOfContents(content, timestamp, client, auth, options);
 
-  const request = {
-    name: title,
-    file: Buffer.from(content),
-    format: 'text/markdown' as const,
-    entityTypes: [...entityTypes, 'table-of-contents'],
-  };
-
-  const response = await client.createResource(request, { auth });
-  const tocId = response.resourceId as ResourceId;
-  printSuccess(`Created ToC: ${tocId}`);
+  return { tocId, references, resumed };
+}
 
-  return { tocId, references };
+/**
+ * Archive resources (a 404 counts as already gone). Returns the number that failed.
+ */
+export async function archiveResources(
+  resourceIds: ResourceId[],
+  client: SemiontApiClient,
+  auth: AccessToken,
+): Promise<number> {
+  let failed = 0;
+  for (let i = 0; i < resourceIds.length; i++) {
+    printBatchProgress(i + 1, resourceIds.length, `Archiving ${resourceIds[i]}...`);
+    try {
+      await apiCall('updateResource', () => client.updateResource(resourceIds[i], { archived: true }, { auth }));
+    } catch (error) {
+      if (!isNotFound(error)) {
+        failed++;
+        printWarning(`Failed: ${error instanceof Error ? error.message : String(error)}`, 7);
+      }
+    }
+  }
+  return failed;
 }
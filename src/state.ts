@@ -0,0 +1,300 @@
+/**
+ * Dataset Run State
+ *
+ * Versioned `.state.json` store shared by every command and the terminal UI.
+ * Each dataset has one state file holding the resources created by its last
+ * load, the annotations created by annotate, and a history of command runs.
+ */
+
+import { existsSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import type { AnnotationId, ResourceId } from '@semiont/core';
+import type { DatasetConfigWithPaths } from './types.js';
+import type { TableOfContentsReference } from './resources.js';
+import type { ChunkRange } from './chunking.js';
+import { log } from './logger.js';
+
+/**
+ * Current schema version written to every state file
+ */
+export const STATE_VERSION = 2;
+
+/**
+ * Maximum number of run records kept per dataset (oldest are dropped first)
+ */
+const MAX_RUNS = 50;
+
+/**
+ * An annotation created by the demo, addressed by the resource it lives on
+ */
+export interface AnnotationRef {
+  resourceId: ResourceId;
+  annotationId: AnnotationId;
+}
+
+/**
+ * A linking annotation created by load; an incremental load re-points it when its target is replaced
+ */
+export interface LinkRef extends AnnotationRef {
+  targetId: ResourceId;
+}
+
+/**
+ * A table-of-contents resource and its entry texts; an incremental load keeps it while the entries are unchanged
+ */
+export interface TocRecord {
+  tocId: ResourceId;
+  entries: string[];
+}
+
+/**
+ * Record of a single command invocation against a dataset
+ */
+export interface CommandRun {
+  command: string;
+  status: 'success' | 'failed';
+  startedAt: string;
+  finishedAt: string;
+  counts: Record<string, number>;
+  resourceIds: ResourceId[];
+  error?: string;
+  overrides?: Record<string, unknown>; // --set values the run used, so it can be reproduced
+}
+
+/**
+ * Run details supplied by a command; finishedAt, counts and resourceIds are filled in by recordRun,
+ * and overrides are taken from the dataset
+ */
+export type CommandRunInput = Omit<CommandRun, 'finishedAt' | 'counts' | 'resourceIds'> &
+  Partial<Pick<CommandRun, 'counts' | 'resourceIds'>>;
+
+/**
+ * Resources created in the backend by the last load (and annotate) of a dataset
+ */
+export interface StateResources {
+  tocId?: ResourceId;
+  chunkIds?: ResourceId[];
+  chunkRanges?: ChunkRange[];                 // Where each chunk lies in formattedText, aligned with chunkIds
+  documentIds?: ResourceId[];
+  references?: TableOfContentsReference[];
+  formattedText: string;
+  phaseResourceIds?: Record<string, ResourceId[]>;
+  annotations?: AnnotationRef[];
+  contentIndex?: Record<string, ResourceId>; // Content key (title + SHA-256) of each uploaded item
+  links?: LinkRef[];                          // json-multi-doc ToC and cross-reference link annotations
+  tocs?: Record<string, TocRecord>;           // json-multi-doc ToC resources by ToC phase name
+}
+
+export interface DemoState extends StateResources {
+  version: number;
+  dataset: string;
+  runs: CommandRun[];
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+type RawState = Record<string, unknown>;
+
+interface MigrationContext {
+  modifiedAt: string; // mtime of the state file, used where older files carry no timestamps
+}
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Files without a version field are treated as version 1.
+ */
+const MIGRATIONS: Record<number, (state: RawState, context: MigrationContext) => RawState> = {
+  // v1 had no run history; synthesize a load run so status checks see the existing resources
+  1: (state, { modifiedAt }) => {
+    const resources = collectResourceIds(state as unknown as StateResources);
+    const runs: CommandRun[] = resources.length > 0
+      ? [{
+          command: 'load',
+          status: 'success',
+          startedAt: modifiedAt,
+          finishedAt: modifiedAt,
+          counts: { resources: resources.length },
+          resourceIds: resources,
+        }]
+      : [];
+    return { ...state, formattedText: state.formattedText ?? '', runs, version: 2 };
+  },
+};
+
+/**
+ * Upgrade a parsed state file to STATE_VERSION
+ */
+export function migrateState(raw: RawState, context: MigrationContext): DemoState {
+  let state = raw;
+  let version = typeof state.version === 'number' ? state.version : 1;
+
+  if (version > STATE_VERSION) {
+    throw new Error(`State file version ${version} is newer than supported version ${STATE_VERSION}`);
+  }
+
+  while (version < STATE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from state version ${version}`);
+    }
+    state = migrate(state, context);
+    version = state.version as number;
+  }
+
+  return state as unknown as DemoState;
+}
+
+// ============================================================================
+// Read / Write
+// ============================================================================
+
+function emptyState(datasetName: string): DemoState {
+  return {
+    version: STATE_VERSION,
+    dataset: datasetName,
+    formattedText: '',
+    runs: [],
+  };
+}
+
+/**
+ * Read and migrate the state file, or return undefined if none exists yet
+ */
+export function readStateIfExists(dataset: DatasetConfigWithPaths): DemoState | undefined {
+  if (!existsSync(dataset.stateFile)) {
+    return undefined;
+  }
+
+  const raw: RawState = JSON.parse(readFileSync(dataset.stateFile, 'utf-8'));
+  const state = migrateState(raw, { modifiedAt: statSync(dataset.stateFile).mtime.toISOString() });
+
+  if (state.dataset !== dataset.name) {
+    throw new Error(`State file is for dataset '${state.dataset}', but you requested '${dataset.name}'`);
+  }
+
+  return state;
+}
+
+/**
+ * Read the state file, failing if the load command has not written one yet
+ */
+export function readState(dataset: DatasetConfigWithPaths): DemoState {
+  const state = readStateIfExists(dataset);
+  if (!state) {
+    throw new Error(`State file ${dataset.stateFile} not found. Run 'load' command first.`);
+  }
+  return state;
+}
+
+/**
+ * Write the state file at the current schema version
+ */
+export function writeState(dataset: DatasetConfigWithPaths, state: DemoState): void {
+  const fullState: DemoState = { ...state, version: STATE_VERSION, dataset: dataset.name };
+  writeFileSync(dataset.stateFile, JSON.stringify(fullState, null, 2));
+}
+
+/**
+ * Replace the recorded resources (e.g. after a fresh load), keeping run history
+ */
+export function replaceResources(dataset: DatasetConfigWithPaths, resources: StateResources): DemoState {
+  const existing = readStateIfExists(dataset) ?? emptyState(dataset.name);
+  const state: DemoState = {
+    version: STATE_VERSION,
+    dataset: dataset.name,
+    ...resources,
+    runs: existing.runs,
+  };
+  writeState(dataset, state);
+  return state;
+}
+
+/**
+ * Append a run record to the dataset's state, creating the state file if needed.
+ * A failed run is only logged when there is no state file yet: a file holding
+ * nothing but a failure would make a dataset that was never loaded look partly loaded.
+ */
+export function recordRun(dataset: DatasetConfigWithPaths, run: CommandRunInput): CommandRun {
+  const record = completeRun(dataset.overrides ? { ...run, overrides: dataset.overrides } : run);
+
+  const existing = readStateIfExists(dataset);
+  if (existing || record.status !== 'failed') {
+    const state = existing ?? emptyState(dataset.name);
+    state.runs = [...state.runs, record].slice(-MAX_RUNS);
+    writeState(dataset, state);
+  }
+  log(record.status === 'failed' ? 'error' : 'info', `${record.command} ${record.status}`, {
+    dataset: dataset.name,
+    command: record.command,
+    status: record.status,
+    counts: record.counts,
+    resources: record.resourceIds.length,
+    durationMs: Date.parse(record.finishedAt) - Date.parse(record.startedAt),
+    ...(record.error && { error: record.error }),
+  });
+  return record;
+}
+
+/**
+ * Fill in the defaults and finish time of a run without recording it (e.g. for dry runs)
+ */
+export function completeRun(run: CommandRunInput): CommandRun {
+  return {
+    counts: {},
+    resourceIds: [],
+    ...run,
+    finishedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Most recent run of a command, optionally restricted to a status
+ */
+export function lastRun(
+  state: DemoState | undefined,
+  command: string,
+  status?: CommandRun['status'],
+): CommandRun | undefined {
+  if (!state) return undefined;
+  for (let i = state.runs.length - 1; i >= 0; i--) {
+    const run = state.runs[i];
+    if (run.command === command && (!status || run.status === status)) {
+      return run;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a command's last successful run still applies (no successful teardown since)
+ */
+export function hasCompleted(state: DemoState | undefined, command: string): boolean {
+  const run = lastRun(state, command, 'success');
+  if (!run) return false;
+  const teardown = lastRun(state, 'teardown', 'success');
+  return !teardown || teardown.finishedAt < run.finishedAt;
+}
+
+/**
+ * All resource IDs recorded in state (ToC first, duplicates removed)
+ */
+export function collectResourceIds(state: StateResources): ResourceId[] {
+  const ids: ResourceId[] = [];
+  if (state.tocId) ids.push(state.tocId);
+  if (state.chunkIds) ids.push(...state.chunkIds);
+  if (state.documentIds) ids.push(...state.documentIds);
+  if (state.phaseResourceIds) {
+    for (const phaseIds of Object.values(state.phaseResourceIds)) {
+      ids.push(...phaseIds);
+    }
+  }
+  if (state.tocs) ids.push(...Object.values(state.tocs).map(toc => toc.tocId));
+  // Resources kept for items whose replacement failed to upload are only in the content index
+  if (state.contentIndex) ids.push(...Object.values(state.contentIndex));
+  return [...new Set(ids)];
+}
@@ -5,8 +5,11 @@
  */
 
 import blessed from 'blessed';
-import { existsSync, readFileSync } from 'node:fs';
+import { existsSync } from 'node:fs';
 import type { DatasetConfigWithPaths } from './types.js';
+import { describeChunking } from './chunking.js';
+import { readStateIfExists, lastRun, hasCompleted, collectResourceIds, type DemoState } from './state.js';
+import { activeProfile } from './profiles.js';
 import { downloadCommand } from './commands/download.js';
 import { loadCommand } from './commands/load.js';
 import { annotateCommand } from './commands/annotate.js';
@@ -41,7 +44,7 @@ export class TerminalApp {
     // Create screen
     this.screen = blessed.screen({
       smartCSR: true,
-      title: 'Semiont Demo - Interactive Mode',
+      title: `Semiont Demo - Interactive Mode${activeProfile() ? ` (${activeProfile()})` : ''}`,
     });
 
     // Create dataset list (top left)
@@ -143,7 +146,7 @@ export class TerminalApp {
         items.push({ type: 'command', dataset: name, command: 'download' });
       }
       items.push({ type: 'command', dataset: name, command: 'load' });
-      if (config.detectCitations) {
+      if (config.detectCitations || config.highlightPhases?.length) {
         items.push({ type: 'command', dataset: name, command: 'annotate' });
       }
       items.push({ type: 'command', dataset: name, command: 'validate' });
@@ -156,37 +159,40 @@ export class TerminalApp {
     const statuses: CommandStatus[] = [];
 
     for (const [name, config] of Object.entries(this.datasets)) {
+      const state = this.readState(config);
+
       // Check download status
       if (config.downloadContent && config.cacheFile) {
         const hasRun = existsSync(config.cacheFile);
         statuses.push({ dataset: name, command: 'download', hasRun });
       }
 
-      // Check load status (has state file)
-      const loadHasRun = existsSync(config.stateFile);
-      statuses.push({ dataset: name, command: 'load', hasRun: loadHasRun });
-
-      // Check annotate status (state file exists and has annotation data)
-      if (config.detectCitations) {
-        let annotateHasRun = false;
-        if (existsSync(config.stateFile)) {
-          try {
-            const state = JSON.parse(readFileSync(config.stateFile, 'utf-8'));
-            annotateHasRun = !!state.annotations;
-          } catch {
-            annotateHasRun = false;
-          }
-        }
-        statuses.push({ dataset: name, command: 'annotate', hasRun: annotateHasRun });
+      // Check load status (last load run succeeded and was not torn down)
+      statuses.push({ dataset: name, command: 'load', hasRun: hasCompleted(state, 'load') });
+
+      // Check annotate status (last annotate run succeeded)
+      if (config.detectCitations || config.highlightPhases?.length) {
+        statuses.push({ dataset: name, command: 'annotate', hasRun: hasCompleted(state, 'annotate') });
       }
 
-      // Validate is always available but never marked as "run" (it's a diagnostic command)
-      statuses.push({ dataset: name, command: 'validate', hasRun: false });
+      // Validate is a diagnostic command; marked once it has completed against the current state
+      statuses.push({ dataset: name, command: 'validate', hasRun: hasCompleted(state, 'validate') });
     }
 
     this.commandStatuses = statuses;
   }
 
+  /**
+   * Read a dataset's state, treating unreadable state files as absent
+   */
+  private readState(config: DatasetConfigWithPaths): DemoState | undefined {
+    try {
+      return readStateIfExists(config);
+    } catch {
+      return undefined;
+    }
+  }
+
   private getCommandStatus(dataset: string, command: string): boolean {
     return this.commandStatuses.find(
       (s) => s.dataset === dataset && s.command === command
@@ -328,18 +334,19 @@ export class TerminalApp {
       content += `{bold}{cyan-fg}Dataset: ${config.displayName}{/cyan-fg}{/bold}\n\n`;
       content += `{bold}Name:{/bold} ${config.name}\n`;
       content += `{bold}Emoji:{/bold} ${config.emoji}\n`;
-      content += `{bold}Chunk:{/bold} ${config.shouldChunk ? `Yes (${config.chunkSize} chars${config.useSmartChunking ? ', smart' : ''})` : 'No'}\n`;
+      content += `{bold}Chunk:{/bold} ${config.shouldChunk ? `Yes (${describeChunking(config)})` : 'No'}\n`;
       content += `{bold}Multi-Document:{/bold} ${config.isMultiDocument ? 'Yes' : 'No'}\n`;
       content += `{bold}Table of Contents:{/bold} ${config.createTableOfContents ? 'Yes' : 'No'}\n`;
       content += `{bold}Detect Citations:{/bold} ${config.detectCitations ? 'Yes' : 'No'}\n`;
       content += `{bold}Entity Types:{/bold} ${config.entityTypes.join(', ')}\n`;
       content += `{bold}Cache File:{/bold} ${config.cacheFile}\n`;
+      content += `{bold}Profile:{/bold} ${activeProfile() ?? '(environment)'}\n`;
       content += `{bold}State File:{/bold} ${config.stateFile}\n\n`;
 
       // Show state if exists
       if (existsSync(config.stateFile)) {
         try {
-          const state = JSON.parse(readFileSync(config.stateFile, 'utf-8'));
+          const state = readStateIfExists(config);
           content += `{bold}{green-fg}State:{/green-fg}{/bold}\n`;
           content += JSON.stringify(state, null, 2)
             .split('\n')
@@ -365,7 +372,7 @@ export class TerminalApp {
       } else if (selected.command === 'load') {
         content += `  Loads content, processes it, and uploads to backend.\n`;
         if (config.shouldChunk) {
-          content += `  {bold}Chunking:{/bold} ${config.chunkSize} chars${config.useSmartChunking ? ' (smart)' : ''}\n`;
+          content += `  {bold}Chunking:{/bold} ${describeChunking(config)}\n`;
         }
         if (config.createTableOfContents) {
           content += `  {bold}TOC:{/bold} Creates table of contents\n`;
@@ -383,34 +390,38 @@ export class TerminalApp {
       }
 
       // Show state excerpt if exists
-      if (existsSync(config.stateFile)) {
-        try {
-          const state = JSON.parse(readFileSync(config.stateFile, 'utf-8'));
-          content += `\n{bold}{green-fg}State:{/green-fg}{/bold}\n`;
-
-          if (selected.command === 'download' && state.cacheFile) {
-            content += `  Cache: ${state.cacheFile}\n`;
-          } else if (selected.command === 'load') {
-            if (state.chunkIds) {
-              content += `  Chunks: ${state.chunkIds.length}\n`;
-            }
-            if (state.documentIds) {
-              content += `  Documents: ${state.documentIds.length}\n`;
-            }
-            if (state.tocId) {
-              content += `  TOC: ${state.tocId}\n`;
+      const state = this.readState(config);
+      if (state) {
+        content += `\n{bold}{green-fg}State:{/green-fg}{/bold}\n`;
+
+        const run = lastRun(state, selected.command!);
+        if (run) {
+          const color = run.status === 'success' ? 'green' : 'red';
+          content += `  Last run: {${color}-fg}${run.status}{/${color}-fg} at ${run.finishedAt}\n`;
+          if (run.error) {
+            content += `  Error: ${run.error}\n`;
+          }
+        }
+
+        if (selected.command === 'load') {
+          if (state.chunkIds) {
+            content += `  Chunks: ${state.chunkIds.length}\n`;
+          }
+          if (state.documentIds) {
+            content += `  Documents: ${state.documentIds.length}\n`;
+          }
+          if (state.phaseResourceIds) {
+            for (const [phase, ids] of Object.entries(state.phaseResourceIds)) {
+              content += `  Phase ${phase}: ${ids.length}\n`;
             }
-          } else if (selected.command === 'annotate' && state.annotations) {
-            content += `  Annotations: ${state.annotations.length}\n`;
-          } else if (selected.command === 'validate') {
-            let resourceCount = 0;
-            if (state.tocId) resourceCount++;
-            if (state.chunkIds) resourceCount += state.chunkIds.length;
-            if (state.documentIds) resourceCount += state.documentIds.length;
-            content += `  Resources to validate: ${resourceCount}\n`;
           }
-        } catch {
-          // Ignore errors
+          if (state.tocId) {
+            content += `  TOC: ${state.tocId}\n`;
+          }
+        } else if (selected.command === 'annotate' && state.annotations) {
+          content += `  Annotations: ${state.annotations.length}\n`;
+        } else if (selected.command === 'validate') {
+          content += `  Resources to validate: ${collectResourceIds(state).length}\n`;
         }
       }
     }
@@ -19,11 +19,19 @@ export interface DatasetConfig {
   name: string;
   displayName: string;
   emoji: string;
+  handler?: string; // Handler name from config.yaml (absent for legacy TypeScript configs)
+  tags?: string[];  // Labels for batch selection (demo --tag <tag> <command>)
 
   // Single-document workflow (chunked or not)
   shouldChunk: boolean;
   chunkSize?: number;
   useSmartChunking?: boolean; // If true, use paragraph-aware chunking instead of fixed-size
+  chunkStrategy?: import('./chunking.js').ChunkStrategy; // markdown: one chunk per heading section; legal-opinion: one per opinion section (default: size)
+  headingDepth?: number; // markdown: deepest heading level that starts a chunk (default 3)
+  targetTokens?: number; // If set, chunk at paragraph boundaries by model tokens instead of characters
+  maxTokens?: number;    // Token chunking: hard limit per chunk (default 1.5 × targetTokens)
+  overlapChars?: number;      // Repeat about this many characters of each neighbouring chunk
+  overlapParagraphs?: number; // Repeat this many paragraphs of each neighbouring chunk
   cacheFile: string;
   downloadContent?: () => Promise<void>;
   loadText?: () => Promise<string>; // For single-document datasets
@@ -36,6 +44,7 @@ export interface DatasetConfig {
   customLoad?: (
     client: import('@semiont/api-client').SemiontApiClient,
     auth: import('@semiont/core').AccessToken,
+    options?: import('./handlers/types.js').CustomLoadOptions,
   ) => Promise<import('./handlers/types.js').CustomLoadResult>;
 
   // Common fields
@@ -43,6 +52,7 @@ export interface DatasetConfig {
   createTableOfContents: boolean;
   tocTitle?: string;
   detectCitations: boolean;
+  concurrency?: number; // Maximum uploads/annotation requests in flight (default 1)
   extractionConfig?: {
     startPattern: RegExp;
     endMarker: string;
@@ -57,5 +67,7 @@ export interface DatasetConfig {
  * Created internally by demo.ts during dataset loading
  */
 export interface DatasetConfigWithPaths extends DatasetConfig {
-  stateFile: string; // Computed: structured-knowledge/scenarios/{dataset_dir}/.state.json
+  scenarioDir: string; // Directory holding the dataset's config.yaml, under one of the scenario roots
+  stateFile: string;   // Computed: {scenarioDir}/.state.json (.state.<profile>.json with a profile)
+  overrides?: Record<string, unknown>; // --set values applied on top of config.yaml for this invocation
 }
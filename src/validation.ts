@@ -8,6 +8,7 @@ import { writeFileSync } from 'node:fs';
 import { createHash } from 'node:crypto';
 import type { SemiontApiClient } from '@semiont/api-client';
 import type { AccessToken, ResourceId } from '@semiont/core';
+import { apiCall } from './api-call';
 
 export interface ValidationResult {
   uri: ResourceId;
@@ -32,7 +33,7 @@ export async function validateResources(
   for (const uri of resourceIds) {
     try {
       // Fetch the resource using the api-client
-      const { data, contentType } = await client.getResourceRepresentation(uri, { auth });
+      const { data, contentType } = await apiCall('getResourceRepresentation', () => client.getResourceRepresentation(uri, { auth }));
 
       // Convert ArrayBuffer to Buffer
       const buffer = Buffer.from(data);